@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../../error-response'
+
+// Upper bound on comments per request, so one call can't drain the upstream rate limit
+const MAX_IDS = 30
+
+/**
+ * GET /api/comments/:source?ids=1,2,3
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ source: string }> }
+) {
+  const { source } = await params
+  const ids = (request.nextUrl.searchParams.get('ids') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+
+  if (ids.length === 0) {
+    return NextResponse.json({ error: 'No comment IDs given', source }, { status: 400 })
+  }
+  if (ids.length > MAX_IDS) {
+    return NextResponse.json({ error: `At most ${MAX_IDS} comments per request`, source }, { status: 400 })
+  }
+
+  try {
+    const comments = await newsService.getComments(source, ids)
+    return NextResponse.json(comments)
+  } catch (error) {
+    console.error(`GET /api/comments/${source} failed:`, error)
+    return errorResponse(error)
+  }
+}
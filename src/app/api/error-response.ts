@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { ApiError } from '@/lib/api'
+
+/**
+ * Convert an error thrown by a service or client into a JSON response
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    const status = error.status >= 400 && error.status < 600 ? error.status : 502
+    return NextResponse.json({ error: error.message, source: error.source }, { status })
+  }
+
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Internal server error' },
+    { status: 500 }
+  )
+}
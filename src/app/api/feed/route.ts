@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService, NewsFilter, isSortOrder } from '@/lib/services'
+import { FeedResponse } from '@/lib/api'
+import { errorResponse } from '../error-response'
+import { parseList, parseLimits, parseSourceOptions, parseSourcePairs } from '../query-params'
+
+/**
+ * GET /api/feed?sources=a,b&search=term&tags=x,y&feeds=a:type&limits=a:50&options=a.since:weekly&sort=hot&cursor=a:30,b:2
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const filter: NewsFilter = {
+    sources: parseList(searchParams.get('sources')),
+    search: searchParams.get('search') || undefined,
+    tags: parseList(searchParams.get('tags')),
+    feedTypes: parseSourcePairs(searchParams.get('feeds')),
+    limits: parseLimits(searchParams.get('limits')),
+    sourceOptions: parseSourceOptions(searchParams.get('options')),
+  }
+  const sort = searchParams.get('sort')
+  if (isSortOrder(sort)) filter.sort = sort
+
+  try {
+    const { items, cursor, stale } = await newsService.getAggregatedPage(
+      filter,
+      parseSourcePairs(searchParams.get('cursor'))
+    )
+    const sourceIds = filter.sources || newsService.getSources().map(s => s.id)
+    const body: FeedResponse = {
+      items,
+      errors: newsService.getSourceErrors(sourceIds),
+      cursor,
+      stale: stale ?? false,
+    }
+    return NextResponse.json(body)
+  } catch (error) {
+    console.error('GET /api/feed failed:', error)
+    return errorResponse(error)
+  }
+}
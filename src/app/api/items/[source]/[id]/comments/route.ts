@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../../../../error-response'
+
+/**
+ * GET /api/items/:source/:id/comments
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ source: string; id: string }> }
+) {
+  const { source, id } = await params
+
+  try {
+    const thread = await newsService.getCommentThread(source, id)
+    return NextResponse.json(thread)
+  } catch (error) {
+    console.error(`GET /api/items/${source}/${id}/comments failed:`, error)
+    return errorResponse(error)
+  }
+}
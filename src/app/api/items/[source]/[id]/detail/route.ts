@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../../../../error-response'
+
+/**
+ * GET /api/items/:source/:id/detail
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ source: string; id: string }> }
+) {
+  const { source, id } = await params
+
+  try {
+    const detail = await newsService.getItemDetail(source, id)
+    if (!detail) {
+      return NextResponse.json({ error: 'Item not found', source }, { status: 404 })
+    }
+    return NextResponse.json(detail)
+  } catch (error) {
+    console.error(`GET /api/items/${source}/${id}/detail failed:`, error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../../../error-response'
+
+/**
+ * GET /api/items/:source/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ source: string; id: string }> }
+) {
+  const { source, id } = await params
+
+  try {
+    const item = await newsService.getItem(source, id)
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found', source }, { status: 404 })
+    }
+    return NextResponse.json(item)
+  } catch (error) {
+    console.error(`GET /api/items/${source}/${id} failed:`, error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,43 @@
+// Parses a comma-separated list, dropping empty entries
+export function parseList(value: string | null): string[] | undefined {
+  if (value === null) return undefined
+  return value.split(',').map(part => part.trim()).filter(Boolean)
+}
+
+// Parses "source:value" pairs, as used by the feeds and cursor parameters;
+// only the first colon separates, since cursors may contain more
+export function parseSourcePairs(value: string | null): Record<string, string> | undefined {
+  const entries = parseList(value)
+    ?.map(part => {
+      const separator = part.indexOf(':')
+      return separator === -1 ? [part, ''] : [part.slice(0, separator), part.slice(separator + 1)]
+    })
+    .filter(([source, pairValue]) => source && pairValue)
+  return entries && entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+// Parses "source:count" pairs, as used by the limits parameter
+export function parseLimits(value: string | null): Record<string, number> | undefined {
+  const pairs = parseSourcePairs(value)
+  if (!pairs) return undefined
+  const limits = Object.entries(pairs)
+    .map(([source, limit]) => [source, Number(limit)] as const)
+    .filter(([, limit]) => Number.isInteger(limit) && limit > 0)
+  return limits.length > 0 ? Object.fromEntries(limits) : undefined
+}
+
+// Parses "source.option:value" pairs, as used by the options parameter; values are URI-encoded
+export function parseSourceOptions(value: string | null): Record<string, Record<string, string>> | undefined {
+  const options: Record<string, Record<string, string>> = {}
+  parseList(value)?.forEach(part => {
+    const match = part.match(/^([^.:]+)\.([^:]+):(.*)$/)
+    if (!match) return
+    const [, source, option, optionValue] = match
+    try {
+      options[source] = { ...options[source], [option]: decodeURIComponent(optionValue) }
+    } catch {
+      // Malformed escapes are ignored like other malformed pairs
+    }
+  })
+  return Object.keys(options).length > 0 ? options : undefined
+}
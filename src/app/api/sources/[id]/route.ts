@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { SourceFeedResponse } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+import { errorResponse } from '../../error-response'
+
+/**
+ * GET /api/sources/:id?feed=type
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const feedType = request.nextUrl.searchParams.get('feed') || undefined
+    const items = await newsService.getSourceNews(id, feedType)
+    const body: SourceFeedResponse = {
+      source: { id, name: sourceRegistry.getName(id) },
+      items,
+    }
+    return NextResponse.json(body)
+  } catch (error) {
+    console.error(`GET /api/sources/${id} failed:`, error)
+    return errorResponse(error)
+  }
+}
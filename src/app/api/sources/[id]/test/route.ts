@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../../../error-response'
+import { parseSourceOptions } from '../../../query-params'
+
+/**
+ * GET /api/sources/:id/test?feed=type&options=id.since:weekly
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const { searchParams } = request.nextUrl
+    const feedType = searchParams.get('feed') || undefined
+    const options = parseSourceOptions(searchParams.get('options'))?.[id]
+    return NextResponse.json(await newsService.testSource(id, feedType, options))
+  } catch (error) {
+    console.error(`GET /api/sources/${id}/test failed:`, error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { newsService } from '@/lib/services'
+import { errorResponse } from '../error-response'
+
+const MAX_SOURCE_IDS = 100
+
+/**
+ * GET /api/sources?ids=a,b
+ */
+export async function GET(request: NextRequest) {
+  // Feed sources are resolved from their IDs, so only the ones asked for are listed
+  const ids = request.nextUrl.searchParams.get('ids')?.split(',').filter(Boolean).slice(0, MAX_SOURCE_IDS)
+
+  try {
+    return NextResponse.json(newsService.getSourcesHealth(ids))
+  } catch (error) {
+    console.error('GET /api/sources failed:', error)
+    return errorResponse(error)
+  }
+}
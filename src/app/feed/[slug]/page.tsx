@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { SavedFeedView } from '@/components/feed/SavedFeedView'
+import { parseSharedFeed } from '@/lib/services/saved-feed-service'
+
+interface FeedPageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata({ params, searchParams }: FeedPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const shared = parseSharedFeed(slug, await searchParams)
+  return {
+    title: `${shared?.name ?? slug} - HackerHome`,
+  }
+}
+
+export default async function FeedPage({ params, searchParams }: FeedPageProps) {
+  const { slug } = await params
+  // Saved feeds live in the browser; share links carry the definition for everyone else
+  const shared = parseSharedFeed(slug, await searchParams)
+
+  return (
+    <MainLayout>
+      <SavedFeedView slug={slug} shared={shared} />
+    </MainLayout>
+  )
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { NewSavedFeed } from '@/components/feed/NewSavedFeed'
+
+export const metadata: Metadata = {
+  title: 'New feed - HackerHome',
+}
+
+export default function NewFeedPage() {
+  return (
+    <MainLayout>
+      <NewSavedFeed />
+    </MainLayout>
+  )
+}
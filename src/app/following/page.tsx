@@ -0,0 +1,20 @@
+import type { Metadata } from 'next'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { FollowingFeed } from '@/components/following/FollowingFeed'
+import { FollowingManager } from '@/components/following/FollowingManager'
+
+export const metadata: Metadata = {
+  title: 'Following - HackerHome',
+}
+
+export default function FollowingPage() {
+  return (
+    <MainLayout>
+      <div className="mx-auto max-w-3xl space-y-6">
+        <h1 className="text-3xl font-bold">Following</h1>
+        <FollowingManager />
+        <FollowingFeed />
+      </div>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,53 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { ItemDetailView } from '@/components/items/ItemDetailView'
+import { newsService } from '@/lib/services'
+import { ApiError } from '@/lib/api'
+
+interface ItemPageProps {
+  params: Promise<{ source: string; id: string }>
+}
+
+// Shared by generateMetadata and the page within one request
+const loadDetail = cache(async (source: string, id: string) => {
+  try {
+    return await newsService.getItemDetail(source, id)
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 404 || error.status === 400)) {
+      return null
+    }
+    throw error
+  }
+})
+
+export async function generateMetadata({ params }: ItemPageProps): Promise<Metadata> {
+  const { source, id } = await params
+  const detail = await loadDetail(source, id)
+  return {
+    title: detail ? `${detail.item.title} - HackerHome` : 'Item not found - HackerHome',
+    description: detail?.item.description || undefined,
+  }
+}
+
+export default async function ItemPage({ params }: ItemPageProps) {
+  const { source, id } = await params
+  const detail = await loadDetail(source, id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  return (
+    <MainLayout>
+      <div className="mx-auto max-w-3xl space-y-4">
+        <Link href="/" className="text-sm text-muted-foreground hover:text-primary">
+          ← Back to feed
+        </Link>
+        <ItemDetailView detail={detail} />
+      </div>
+    </MainLayout>
+  )
+}
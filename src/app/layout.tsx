@@ -16,7 +16,7 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "HackerHome - Tech News Aggregator",
   description: "A modern tech news aggregator built with Next.js",
-  keywords: "tech news, hacker news, dev.to, github, technology, programming",
+  keywords: "tech news, hacker news, dev.to, github, lobsters, reddit, technology, programming",
 };
 
 export default function RootLayout({
@@ -1,44 +1,118 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
 import { MainLayout } from "@/components/layout/MainLayout"
-import { useNews } from '@/lib/hooks'
-import { formatRelativeTime } from '@/lib/api'
+import {
+  useBookmarks,
+  useFeedActions,
+  useFeedState,
+  useNewsItems,
+  useNewsSources,
+  useReadState,
+  useSettings,
+  useSourceErrors
+} from '@/lib/hooks'
+import { getItemKey, NewsItem } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+import { rankItems, isSortOrder, SortOrder, SORT_ORDERS } from '@/lib/services/ranking'
+import { getHighlightTerms, matchesQuery, parseQuery } from '@/lib/services/search-query'
 import { motion } from '@/components/animations/motion'
+import { ItemPreviewDrawer } from '@/components/items/ItemPreviewDrawer'
+import { LoadMore } from '@/components/feed/LoadMore'
+import { NewsCard } from '@/components/feed/NewsCard'
+import { SaveFeedButton } from '@/components/feed/SaveFeedButton'
+import { QueryInput } from '@/components/search/QueryInput'
+import { SearchHistoryResults } from '@/components/search/SearchHistoryResults'
+
+const INFINITE_SCROLL_KEY = 'hackerhome-infinite-scroll'
+const SORT_ORDER_KEY = 'hackerhome-sort'
 
 export default function Home() {
-  const { news, isLoading, error, sourceErrors, refreshNews, setRefreshInterval } = useNews()
+  const news = useNewsItems()
+  const sources = useNewsSources()
+  const sourceErrors = useSourceErrors()
+  const isLoading = useFeedState(state => state.isLoading)
+  const isLoadingMore = useFeedState(state => state.isLoadingMore)
+  const hasMore = useFeedState(state => state.hasMore)
+  const mutedCount = useFeedState(state => state.mutedCount)
+  const error = useFeedState(state => state.error)
+  const autoRefreshEnabled = useFeedState(state => state.autoRefresh)
+  const { refresh, loadMore, setAutoRefresh } = useFeedActions()
+  const { isSaved, toggleBookmark } = useBookmarks()
+  const { lastVisitAt, isRead, isNew, markRead } = useReadState()
+  const { settings } = useSettings()
+  const { refreshIntervalMinutes } = settings
+  const isAdvanced = settings.mode === 'advanced'
   const [searchQuery, setSearchQuery] = useState('')
-  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false)
+  const [openComments, setOpenComments] = useState<string | null>(null)
+  const [previewItem, setPreviewItem] = useState<NewsItem | null>(null)
+  const [hideRead, setHideRead] = useState(false)
+  const [infiniteScroll, setInfiniteScroll] = useState(false)
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest')
+  // Search the current feed, or everything fetched so far
+  const [searchHistory, setSearchHistory] = useState(false)
 
-  // Handle auto-refresh toggle
+  // Restore the infinite scroll and sort preferences
   useEffect(() => {
-    if (autoRefreshEnabled) {
-      setRefreshInterval(5 * 60 * 1000) // 5 minutes
-    } else {
-      setRefreshInterval(null)
-    }
-    
-    return () => {
-      // Clean up on unmount
-      setRefreshInterval(null)
-    }
-  }, [autoRefreshEnabled, setRefreshInterval])
+    setInfiniteScroll(localStorage.getItem(INFINITE_SCROLL_KEY) === 'true')
+    const savedSort = localStorage.getItem(SORT_ORDER_KEY)
+    if (isSortOrder(savedSort)) setSortOrder(savedSort)
+  }, [])
+
+  // Simple mode always shows the live feed, newest first
+  const activeSort: SortOrder = isAdvanced ? sortOrder : 'newest'
+  const showHistory = isAdvanced && searchHistory
+
+  const query = useMemo(() => parseQuery(searchQuery), [searchQuery])
+  const highlightTerms = useMemo(() => getHighlightTerms(query), [query])
 
-  const filteredNews = searchQuery 
-    ? news.filter(item => 
-        item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.content?.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : news
+  const filteredNews = useMemo(() => {
+    const matching = query.isEmpty ? news : news.filter(item => matchesQuery(item, query))
+    const visible = hideRead ? matching.filter(item => !isRead(item)) : matching
+
+    // Rank everything loaded so far, so later pages merge into the same order
+    return rankItems(visible, activeSort)
+  }, [news, query, hideRead, isRead, activeSort])
+
+  // When newest first, everything before this index arrived since the last visit
+  const newBoundary = lastVisitAt === null || activeSort !== 'newest'
+    ? -1
+    : filteredNews.findIndex(item => item.timestamp * 1000 <= lastVisitAt)
 
   const handleRefresh = () => {
-    refreshNews()
+    refresh()
+  }
+
+  const toggleComments = (item: NewsItem) => {
+    const itemKey = getItemKey(item)
+    markRead(item)
+    setOpenComments(openComments === itemKey ? null : itemKey)
+  }
+
+  const openPreview = (item: NewsItem) => {
+    markRead(item)
+    setPreviewItem(item)
+  }
+
+  const closePreview = useCallback(() => setPreviewItem(null), [])
+
+  const markAllRead = () => {
+    markRead(news)
+  }
+
+  const changeSortOrder = (order: SortOrder) => {
+    localStorage.setItem(SORT_ORDER_KEY, order)
+    setSortOrder(order)
+  }
+
+  const toggleInfiniteScroll = () => {
+    localStorage.setItem(INFINITE_SCROLL_KEY, String(!infiniteScroll))
+    setInfiniteScroll(!infiniteScroll)
   }
 
   const toggleAutoRefresh = () => {
-    setAutoRefreshEnabled(!autoRefreshEnabled)
+    setAutoRefresh(!autoRefreshEnabled)
   }
 
   return (
@@ -46,77 +120,173 @@ export default function Home() {
       <div className="space-y-6">
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex items-center gap-2">
-            <h1 className="text-3xl font-bold">Latest Tech News</h1>
-            <div className="flex items-center space-x-1">
-              <button
-                onClick={handleRefresh}
-                disabled={isLoading}
-                className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
-                title="Refresh"
-              >
-                <svg 
-                  xmlns="http://www.w3.org/2000/svg" 
-                  fill="none" 
-                  viewBox="0 0 24 24" 
-                  strokeWidth={1.5} 
-                  stroke="currentColor" 
-                  className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`}
+              <h1 className="text-3xl font-bold">Latest Tech News</h1>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={handleRefresh}
+                  disabled={isLoading}
+                  className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                  title="Refresh"
                 >
-                  <path 
-                    strokeLinecap="round" 
-                    strokeLinejoin="round" 
-                    d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" 
-                  />
-                </svg>
-              </button>
-              <button
-                onClick={toggleAutoRefresh}
-                className={`rounded-md p-1.5 ${
-                  autoRefreshEnabled 
-                    ? 'text-primary' 
-                    : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
-                }`}
-                title={autoRefreshEnabled ? "Auto-refresh on (5 minutes)" : "Auto-refresh off"}
-              >
-                <svg 
-                  xmlns="http://www.w3.org/2000/svg" 
-                  fill="none" 
-                  viewBox="0 0 24 24" 
-                  strokeWidth={1.5} 
-                  stroke="currentColor" 
-                  className="h-5 w-5"
+                  <svg 
+                    xmlns="http://www.w3.org/2000/svg" 
+                    fill="none" 
+                    viewBox="0 0 24 24" 
+                    strokeWidth={1.5} 
+                    stroke="currentColor" 
+                    className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`}
+                  >
+                    <path 
+                      strokeLinecap="round" 
+                      strokeLinejoin="round" 
+                      d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" 
+                    />
+                  </svg>
+                </button>
+                <button
+                  onClick={toggleAutoRefresh}
+                  className={`rounded-md p-1.5 ${
+                    autoRefreshEnabled 
+                      ? 'text-primary' 
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                  title={autoRefreshEnabled ? `Auto-refresh on (${refreshIntervalMinutes} minutes)` : "Auto-refresh off"}
                 >
-                  <path 
-                    strokeLinecap="round" 
-                    strokeLinejoin="round" 
-                    d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" 
-                  />
-                </svg>
-              </button>
+                  <svg 
+                    xmlns="http://www.w3.org/2000/svg" 
+                    fill="none" 
+                    viewBox="0 0 24 24" 
+                    strokeWidth={1.5} 
+                    stroke="currentColor" 
+                    className="h-5 w-5"
+                  >
+                    <path 
+                      strokeLinecap="round" 
+                      strokeLinejoin="round" 
+                      d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" 
+                    />
+                  </svg>
+                </button>
+                <button
+                  onClick={markAllRead}
+                  disabled={news.length === 0}
+                  className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                  title="Mark all read"
+                  aria-label="Mark all read"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    className="h-5 w-5"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setHideRead(!hideRead)}
+                  className={`rounded-md p-1.5 ${
+                    hideRead
+                      ? 'text-primary'
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                  }`}
+                  title={hideRead ? "Showing unread only" : "Hide read items"}
+                  aria-pressed={hideRead}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    className="h-5 w-5"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M3.98 8.223A10.477 10.477 0 001.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.45 10.45 0 0112 4.5c4.756 0 8.773 3.162 10.065 7.498a10.523 10.523 0 01-4.293 5.774M6.228 6.228L3 3m3.228 3.228l3.65 3.65m7.894 7.894L21 21m-3.228-3.228l-3.65-3.65m0 0a3 3 0 10-4.243-4.243m4.242 4.242L9.88 9.88"
+                    />
+                  </svg>
+                </button>
+                {isAdvanced && (
+                  <button
+                    onClick={toggleInfiniteScroll}
+                    className={`rounded-md p-1.5 ${
+                      infiniteScroll
+                        ? 'text-primary'
+                        : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                    }`}
+                    title={infiniteScroll ? "Infinite scroll on" : "Infinite scroll off"}
+                    aria-pressed={infiniteScroll}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      strokeWidth={1.5}
+                      stroke="currentColor"
+                      className="h-5 w-5"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M19.5 5.25l-7.5 7.5-7.5-7.5m15 6l-7.5 7.5-7.5-7.5"
+                      />
+                    </svg>
+                  </button>
+                )}
+              </div>
             </div>
-          </div>
-          <div className="relative">
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-              />
-            </svg>
-            <input
-              type="search"
-              placeholder="Search news..."
-              className="w-full rounded-md border border-input bg-background py-2 pl-8 pr-4 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            <div className="flex items-center gap-2">
+            {isAdvanced && (
+              <div className="flex rounded-md border border-input text-sm" role="group" aria-label="Search scope">
+                <button
+                  onClick={() => setSearchHistory(false)}
+                  className={`rounded-l-md px-2.5 py-2 ${
+                    !searchHistory ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:text-accent-foreground'
+                  }`}
+                  aria-pressed={!searchHistory}
+                >
+                  Feed
+                </button>
+                <button
+                  onClick={() => setSearchHistory(true)}
+                  className={`rounded-r-md px-2.5 py-2 ${
+                    searchHistory ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:text-accent-foreground'
+                  }`}
+                  aria-pressed={searchHistory}
+                  title="Search everything fetched so far"
+                >
+                  History
+                </button>
+              </div>
+            )}
+            {isAdvanced && !searchHistory && (
+              <select
+                value={sortOrder}
+                onChange={(e) => changeSortOrder(e.target.value as SortOrder)}
+                className="rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label="Sort by"
+              >
+                {SORT_ORDERS.map((order) => (
+                  <option key={order.id} value={order.id}>
+                    {order.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <QueryInput
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={setSearchQuery}
+              placeholder="Search news... (try lang:rust stars:>500)"
             />
+            {isAdvanced && !searchHistory && <SaveFeedButton query={searchQuery} sources={sources} />}
           </div>
         </div>
 
@@ -132,15 +302,14 @@ export default function Home() {
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
               </svg>
               <p className="text-sm font-medium">
-                Some sources couldn't be loaded ({sourceErrors.length})
+                Some sources couldn&apos;t be loaded ({sourceErrors.length})
               </p>
             </div>
             <div className="mt-1 text-xs">
-              {sourceErrors.map((error, index) => (
+              {sourceErrors.map((error) => (
                 <div key={error.id} className="mt-1">
                   <span className="font-medium">
-                    {error.id === 'hackernews' ? 'Hacker News' : 
-                     error.id === 'devto' ? 'DEV.to' : 'GitHub'}:
+                    {sourceRegistry.getName(error.id)}:
                   </span>{' '}
                   {error.message.length > 100 
                     ? `${error.message.substring(0, 100)}...` 
@@ -151,7 +320,18 @@ export default function Home() {
           </motion.div>
         )}
 
-        {isLoading ? (
+        {mutedCount > 0 && !showHistory && (
+          <p className="text-xs text-muted-foreground">
+            {mutedCount} item{mutedCount === 1 ? '' : 's'} muted ·{' '}
+            <Link href="/settings" className="hover:text-primary hover:underline">
+              Manage mute rules
+            </Link>
+          </p>
+        )}
+
+        {showHistory ? (
+          <SearchHistoryResults query={searchQuery} highlightTerms={highlightTerms} />
+        ) : isLoading ? (
           <div className="space-y-4">
             {[...Array(5)].map((_, i) => (
               <div key={i} className="rounded-lg border border-border/40 bg-card p-4 shadow-sm">
@@ -186,7 +366,11 @@ export default function Home() {
           >
             <h3 className="font-medium">No news found</h3>
             <p className="mt-1 text-sm text-muted-foreground">
-              {searchQuery ? "Try a different search term" : "Check back later for updates"}
+              {searchQuery
+                ? "Try a different search term"
+                : hideRead && news.length > 0
+                  ? "You're all caught up"
+                  : "Check back later for updates"}
             </p>
             {searchQuery && (
               <button 
@@ -203,119 +387,43 @@ export default function Home() {
             animate={{ opacity: 1 }}
             className="grid gap-4"
           >
-            {filteredNews.map((item, index) => (
-              <motion.div
-                key={`${item.source}-${item.id}`}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05, duration: 0.2 }}
-                className="rounded-lg border border-border/40 bg-card p-4 shadow-sm transition-all hover:shadow-md"
-              >
-                <div className="flex items-start justify-between">
-                  <div>
-                    <a
-                      href={item.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-lg font-medium hover:text-primary hover:underline"
-                    >
-                      {item.title}
-                    </a>
-                    {item.description && (
-                      <p className="mt-1 text-sm text-muted-foreground">
-                        {item.description.length > 150
-                          ? `${item.description.substring(0, 150)}...`
-                          : item.description}
-                      </p>
-                    )}
-                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
-                      <span className="rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
-                        {item.source === 'hackernews'
-                          ? 'Hacker News'
-                          : item.source === 'devto'
-                          ? 'DEV.to'
-                          : 'GitHub'}
-                      </span>
-                      <span>•</span>
-                      <span>{formatRelativeTime(item.timestamp)}</span>
-                      {item.points !== undefined && (
-                        <>
-                          <span>•</span>
-                          <span>{item.points} points</span>
-                        </>
-                      )}
-                      {item.reactions !== undefined && (
-                        <>
-                          <span>•</span>
-                          <span>{item.reactions} reactions</span>
-                        </>
-                      )}
-                      {item.stars !== undefined && (
-                        <>
-                          <span>•</span>
-                          <span>{item.stars} stars</span>
-                        </>
-                      )}
-                      {item.commentCount !== undefined && (
-                        <>
-                          <span>•</span>
-                          <span>{item.commentCount} comments</span>
-                        </>
-                      )}
-                      {item.language && (
-                        <>
-                          <span>•</span>
-                          <span>{item.language}</span>
-                        </>
-                      )}
+            {filteredNews.map((item, index) => {
+              const itemKey = getItemKey(item)
+              return (
+                <Fragment key={itemKey}>
+                  {index === newBoundary && index > 0 && (
+                    <div className="flex items-center gap-3 text-xs font-medium text-primary">
+                      <span className="h-px flex-1 bg-primary/40" />
+                      New since last visit ↑
+                      <span className="h-px flex-1 bg-primary/40" />
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      className="rounded-full p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
-                      aria-label="Save"
-                    >
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        strokeWidth={1.5}
-                        stroke="currentColor"
-                        className="h-4 w-4"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z"
-                        />
-                      </svg>
-                    </button>
-                    <button
-                      className="rounded-full p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
-                      aria-label="Share"
-                    >
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        strokeWidth={1.5}
-                        stroke="currentColor"
-                        className="h-4 w-4"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          d="M7.217 10.907a2.25 2.25 0 100 2.186m0-2.186c.18.324.283.696.283 1.093s-.103.77-.283 1.093m0-2.186l9.566-5.314m-9.566 7.5l9.566 5.314m0 0a2.25 2.25 0 103.935 2.186 2.25 2.25 0 00-3.935-2.186zm0-12.814a2.25 2.25 0 103.933-2.185 2.25 2.25 0 00-3.933 2.185z"
-                        />
-                      </svg>
-                    </button>
-                  </div>
-                </div>
-              </motion.div>
-            ))}
+                  )}
+                  <NewsCard
+                    item={item}
+                    index={index}
+                    highlightTerms={highlightTerms}
+                    isRead={isRead(item)}
+                    isNew={isNew(item)}
+                    isSaved={isSaved(item)}
+                    commentsOpen={openComments === itemKey}
+                    onMarkRead={markRead}
+                    onToggleComments={toggleComments}
+                    onPreview={openPreview}
+                    onToggleBookmark={toggleBookmark}
+                  />
+                </Fragment>
+              )
+            })}
+            <LoadMore
+              hasMore={hasMore}
+              isLoading={isLoadingMore}
+              infinite={isAdvanced && infiniteScroll}
+              onLoadMore={loadMore}
+            />
           </motion.div>
         )}
       </div>
+      <ItemPreviewDrawer item={previewItem} onClose={closePreview} />
     </MainLayout>
   )
 }
@@ -0,0 +1,174 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { BookmarkCard } from '@/components/bookmarks/BookmarkCard'
+import { useBookmarks } from '@/lib/hooks'
+import { Bookmark } from '@/lib/services/bookmark-service'
+
+type SortOrder = 'saved-desc' | 'saved-asc' | 'published-desc' | 'title'
+
+const SORTERS: Record<SortOrder, (a: Bookmark, b: Bookmark) => number> = {
+  'saved-desc': (a, b) => b.savedAt - a.savedAt,
+  'saved-asc': (a, b) => a.savedAt - b.savedAt,
+  'published-desc': (a, b) => b.item.timestamp - a.item.timestamp,
+  title: (a, b) => a.item.title.localeCompare(b.item.title),
+}
+
+export default function SavedPage() {
+  const {
+    bookmarks,
+    folders,
+    tags,
+    isLoading,
+    error,
+    updateBookmark,
+    removeBookmark,
+    exportBookmarks,
+    importBookmarks
+  } = useBookmarks()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [sortOrder, setSortOrder] = useState<SortOrder>('saved-desc')
+  const [folderFilter, setFolderFilter] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const visibleBookmarks = useMemo(() => {
+    const query = searchQuery.toLowerCase()
+    return bookmarks
+      .filter(b => !folderFilter || b.folder === folderFilter)
+      .filter(b => !tagFilter || b.tags.includes(tagFilter))
+      .filter(b =>
+        !query ||
+        b.item.title.toLowerCase().includes(query) ||
+        b.item.description?.toLowerCase().includes(query) ||
+        b.item.author.toLowerCase().includes(query) ||
+        b.note.toLowerCase().includes(query) ||
+        b.tags.some(tag => tag.includes(query))
+      )
+      .sort(SORTERS[sortOrder])
+  }, [bookmarks, searchQuery, sortOrder, folderFilter, tagFilter])
+
+  const handleExport = async () => {
+    const json = await exportBookmarks()
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `hackerhome-saved-${new Date().toISOString().split('T')[0]}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = await importBookmarks(await file.text())
+      setImportMessage(`Imported ${count} saved item${count === 1 ? '' : 's'}`)
+    } catch (err) {
+      console.error('Error importing bookmarks:', err);
+      setImportMessage(err instanceof Error ? err.message : 'Import failed')
+    }
+  }
+
+  const selectClassName = "rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h1 className="text-3xl font-bold">Saved</h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={bookmarks.length === 0}
+              className="rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+        </div>
+
+        {importMessage && (
+          <p className="rounded-md bg-accent px-3 py-2 text-sm text-accent-foreground">{importMessage}</p>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <input
+            type="search"
+            placeholder="Search saved items..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <select value={folderFilter} onChange={(e) => setFolderFilter(e.target.value)} className={selectClassName} aria-label="Folder">
+            <option value="">All folders</option>
+            {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+          </select>
+          <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={selectClassName} aria-label="Tag">
+            <option value="">All tags</option>
+            {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+          </select>
+          <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className={selectClassName} aria-label="Sort">
+            <option value="saved-desc">Recently saved</option>
+            <option value="saved-asc">Oldest saved</option>
+            <option value="published-desc">Recently published</option>
+            <option value="title">Title</option>
+          </select>
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive">{error.message}</p>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="rounded-lg border border-border/40 bg-card p-4 shadow-sm">
+                <div className="h-6 w-3/4 animate-pulse rounded bg-muted"></div>
+                <div className="mt-2 h-4 w-1/2 animate-pulse rounded bg-muted"></div>
+              </div>
+            ))}
+          </div>
+        ) : visibleBookmarks.length === 0 ? (
+          <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+            <h3 className="font-medium">Nothing saved here</h3>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {bookmarks.length > 0
+                ? 'Try a different search or filter'
+                : 'Use the bookmark button on any story to read it later'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {visibleBookmarks.map(bookmark => (
+              <BookmarkCard
+                key={bookmark.key}
+                bookmark={bookmark}
+                folders={folders}
+                onUpdate={updateBookmark}
+                onRemove={removeBookmark}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { GeneralSettings } from '@/components/settings/GeneralSettings'
+import { SourcesSettings } from '@/components/settings/SourcesSettings'
+import { MuteRulesSettings } from '@/components/settings/MuteRulesSettings'
+import { ResetSettings } from '@/components/settings/ResetSettings'
+
+export const metadata: Metadata = {
+  title: 'Settings - HackerHome',
+}
+
+export default function SettingsPage() {
+  return (
+    <MainLayout>
+      <div className="mx-auto max-w-3xl space-y-8">
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <GeneralSettings />
+        <SourcesSettings />
+        <MuteRulesSettings />
+        <ResetSettings />
+      </div>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from 'next'
+import { MainLayout } from '@/components/layout/MainLayout'
+import { SourceHealthList } from '@/components/sources/SourceHealthList'
+
+export const metadata: Metadata = {
+  title: 'Sources - HackerHome',
+}
+
+export default function SourcesPage() {
+  return (
+    <MainLayout>
+      <div className="mx-auto max-w-3xl space-y-6">
+        <h1 className="text-3xl font-bold">Sources</h1>
+        <SourceHealthList />
+      </div>
+    </MainLayout>
+  )
+}
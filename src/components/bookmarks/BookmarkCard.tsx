@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { formatRelativeTime } from '@/lib/api'
+import { Bookmark, BookmarkUpdate } from '@/lib/services/bookmark-service'
+import { sourceRegistry } from '@/lib/sources'
+
+interface BookmarkCardProps {
+  bookmark: Bookmark
+  folders: string[]
+  onUpdate: (key: string, update: BookmarkUpdate) => void
+  onRemove: (key: string) => void
+}
+
+function parseTags(value: string): string[] {
+  return Array.from(new Set(
+    value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+  ))
+}
+
+/**
+ * A saved item with its folder, tags and note
+ */
+export function BookmarkCard({ bookmark, folders, onUpdate, onRemove }: BookmarkCardProps) {
+  const { item } = bookmark
+  const [isEditing, setIsEditing] = useState(false)
+  const [folder, setFolder] = useState(bookmark.folder ?? '')
+  const [tags, setTags] = useState(bookmark.tags.join(', '))
+  const [note, setNote] = useState(bookmark.note)
+
+  const handleSave = () => {
+    onUpdate(bookmark.key, {
+      folder: folder.trim() || null,
+      tags: parseTags(tags),
+      note: note.trim(),
+    })
+    setIsEditing(false)
+  }
+
+  return (
+    <div className="rounded-lg border border-border/40 bg-card p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <a
+            href={item.url || `/item/${item.source}/${item.id}`}
+            target={item.url ? '_blank' : undefined}
+            rel="noopener noreferrer"
+            className="text-lg font-medium hover:text-primary hover:underline"
+          >
+            {item.title}
+          </a>
+          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
+              {sourceRegistry.getName(item.source)}
+            </span>
+            <span>•</span>
+            <span>{item.author}</span>
+            <span>•</span>
+            <span>published {formatRelativeTime(item.timestamp)}</span>
+            <span>•</span>
+            <span>saved {formatRelativeTime(Math.floor(bookmark.savedAt / 1000))}</span>
+            <span>•</span>
+            <Link href={`/item/${item.source}/${item.id}`} className="hover:text-primary hover:underline">
+              details
+            </Link>
+          </div>
+          {!isEditing && (
+            <>
+              {(bookmark.folder || bookmark.tags.length > 0) && (
+                <div className="mt-2 flex flex-wrap gap-1.5 text-xs">
+                  {bookmark.folder && (
+                    <span className="rounded bg-accent px-1.5 py-0.5 text-accent-foreground">
+                      {bookmark.folder}
+                    </span>
+                  )}
+                  {bookmark.tags.map(tag => (
+                    <span key={tag} className="rounded bg-secondary px-1.5 py-0.5 text-secondary-foreground">
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {bookmark.note && (
+                <p className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground">{bookmark.note}</p>
+              )}
+            </>
+          )}
+        </div>
+        <div className="flex flex-shrink-0 items-center space-x-1">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+          >
+            {isEditing ? 'Cancel' : 'Edit'}
+          </button>
+          <button
+            onClick={() => onRemove(bookmark.key)}
+            className="rounded-md px-2 py-1 text-xs text-destructive hover:bg-destructive/10"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="mt-3 space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              list={`folders-${bookmark.key}`}
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              placeholder="Folder"
+              className="rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <datalist id={`folders-${bookmark.key}`}>
+              {folders.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+          </div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note"
+            rows={3}
+            className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <button
+            onClick={handleSave}
+            className="inline-flex items-center rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+          >
+            Save changes
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { formatRelativeTime, NewsComment } from '@/lib/api'
+import { useComments, COMMENT_PAGE_SIZE } from '@/lib/hooks'
+
+interface CommentThreadProps {
+  source: string
+  itemId: string | number
+}
+
+interface CommentListProps {
+  ids: string[]
+  depth: number
+  comments: Record<string, NewsComment>
+  loadingIds: string[]
+  missingIds: string[]
+  loadMore: (ids: string[]) => Promise<void>
+}
+
+function CommentList({ ids, depth, comments, loadingIds, missingIds, loadMore }: CommentListProps) {
+  const loaded = ids.filter(id => comments[id])
+  // Deleted or missing comments can never load, so they don't count as remaining
+  const remaining = ids.filter(id => !comments[id] && !missingIds.includes(id)).length
+  const isLoadingMore = ids.some(id => loadingIds.includes(id))
+
+  return (
+    <div className="space-y-3">
+      {loaded.map(id => (
+        <CommentNode
+          key={id}
+          comment={comments[id]}
+          depth={depth}
+          comments={comments}
+          loadingIds={loadingIds}
+          missingIds={missingIds}
+          loadMore={loadMore}
+        />
+      ))}
+      {remaining > 0 && (
+        <button
+          onClick={() => loadMore(ids)}
+          disabled={isLoadingMore}
+          className="text-xs font-medium text-primary hover:underline disabled:opacity-50"
+        >
+          {isLoadingMore
+            ? 'Loading...'
+            : loaded.length === 0
+            ? `Show ${remaining} ${remaining === 1 ? 'reply' : 'replies'}`
+            : `Load ${Math.min(remaining, COMMENT_PAGE_SIZE)} more (${remaining} left)`}
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface CommentNodeProps extends Omit<CommentListProps, 'ids'> {
+  comment: NewsComment
+}
+
+function CommentNode({ comment, depth, comments, loadingIds, missingIds, loadMore }: CommentNodeProps) {
+  const [collapsed, setCollapsed] = useState(false)
+
+  return (
+    <div className={depth > 0 ? 'border-l border-border/60 pl-3' : ''}>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="font-mono hover:text-foreground"
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? 'Expand comment' : 'Collapse comment'}
+        >
+          [{collapsed ? '+' : '–'}]
+        </button>
+        <span className="font-medium text-foreground">{comment.author}</span>
+        <span>•</span>
+        <span>{formatRelativeTime(comment.timestamp)}</span>
+        {collapsed && comment.replyIds.length > 0 && (
+          <span>({comment.replyIds.length} {comment.replyIds.length === 1 ? 'reply' : 'replies'})</span>
+        )}
+      </div>
+      {!collapsed && (
+        <>
+          {comment.deleted ? (
+            <p className="mt-1 text-sm italic text-muted-foreground">[deleted]</p>
+          ) : (
+            <div
+              className="mt-1 break-words text-sm [&_a]:text-primary [&_a]:underline [&_p]:mt-2 [&_pre]:mt-2 [&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-2"
+              // Comment HTML is sanitized when it is normalized
+              dangerouslySetInnerHTML={{ __html: comment.text }}
+            />
+          )}
+          {comment.replyIds.length > 0 && (
+            <div className="mt-3">
+              <CommentList
+                ids={comment.replyIds}
+                depth={depth + 1}
+                comments={comments}
+                loadingIds={loadingIds}
+                missingIds={missingIds}
+                loadMore={loadMore}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Collapsible threaded view of an item's comments
+ */
+export function CommentThread({ source, itemId }: CommentThreadProps) {
+  const { rootIds, comments, isLoading, error, loadingIds, missingIds, loadMore } = useComments(source, itemId)
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i}>
+            <div className="h-3 w-1/4 animate-pulse rounded bg-muted"></div>
+            <div className="mt-2 h-4 w-3/4 animate-pulse rounded bg-muted"></div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (error && Object.keys(comments).length === 0) {
+    return <p className="text-sm text-destructive">Couldn&apos;t load comments: {error.message}</p>
+  }
+
+  if (rootIds.length === 0) {
+    return <p className="text-sm text-muted-foreground">No comments yet.</p>
+  }
+
+  return (
+    <CommentList
+      ids={rootIds}
+      depth={0}
+      comments={comments}
+      loadingIds={loadingIds}
+      missingIds={missingIds}
+      loadMore={loadMore}
+    />
+  )
+}
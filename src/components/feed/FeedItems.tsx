@@ -0,0 +1,143 @@
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import {
+  useBookmarks,
+  useFeedActions,
+  useFeedState,
+  useFeedStore,
+  useNewsItems,
+  useReadState,
+  useSourceErrors
+} from '@/lib/hooks'
+import { getItemKey, NewsItem } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+import { NewsFilter } from '@/lib/services/news-service'
+import { motion } from '@/components/animations/motion'
+import { ItemPreviewDrawer } from '@/components/items/ItemPreviewDrawer'
+import { LoadMore } from '@/components/feed/LoadMore'
+import { NewsCard } from '@/components/feed/NewsCard'
+
+interface FeedItemsProps {
+  // Fixed for the life of the component; remount it to change the filter
+  filter: NewsFilter
+  // Narrows the fetched items further, e.g. to a saved feed's queries
+  matches?: (item: NewsItem) => boolean
+  emptyTitle?: string
+}
+
+const buttonClassName = "rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+
+/**
+ * The items of a feed with its own filter, with refresh and load more controls
+ */
+export function FeedItems({ filter, matches, emptyTitle = 'Nothing matches yet' }: FeedItemsProps) {
+  const store = useFeedStore(filter)
+  const news = useNewsItems(store)
+  const sourceErrors = useSourceErrors(store)
+  const isLoading = useFeedState(state => state.isLoading, store)
+  const isLoadingMore = useFeedState(state => state.isLoadingMore, store)
+  const hasMore = useFeedState(state => state.hasMore, store)
+  const error = useFeedState(state => state.error, store)
+  const { refresh, loadMore } = useFeedActions(store)
+  const { isSaved, toggleBookmark } = useBookmarks()
+  const { isRead, isNew, markRead } = useReadState()
+  const [openComments, setOpenComments] = useState<string | null>(null)
+  const [previewItem, setPreviewItem] = useState<NewsItem | null>(null)
+
+  const items = useMemo(() => (matches ? news.filter(matches) : news), [news, matches])
+
+  const toggleComments = (item: NewsItem) => {
+    const itemKey = getItemKey(item)
+    markRead(item)
+    setOpenComments(openComments === itemKey ? null : itemKey)
+  }
+
+  const openPreview = (item: NewsItem) => {
+    markRead(item)
+    setPreviewItem(item)
+  }
+
+  const closePreview = useCallback(() => setPreviewItem(null), [])
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <button onClick={() => refresh()} disabled={isLoading} className={buttonClassName}>
+          Refresh
+        </button>
+        <button onClick={() => markRead(items)} disabled={items.length === 0} className={buttonClassName}>
+          Mark all read
+        </button>
+      </div>
+
+      {sourceErrors.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-500">
+          {sourceErrors.map((sourceError) => (
+            <div key={sourceError.id}>
+              <span className="font-medium">{sourceRegistry.getName(sourceError.id)}:</span>{' '}
+              {sourceError.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="rounded-lg border border-border/40 bg-card p-4 shadow-sm">
+              <div className="h-6 w-3/4 animate-pulse rounded bg-muted"></div>
+              <div className="mt-2 h-4 w-1/2 animate-pulse rounded bg-muted"></div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
+          <h3 className="font-medium">Error loading feed</h3>
+          <p className="mt-1 text-sm">{error.message}</p>
+        </div>
+      ) : (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="grid gap-4"
+        >
+          {items.length === 0 && (
+            <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+              <h3 className="font-medium">{emptyTitle}</h3>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {hasMore ? 'Load more to search further back' : 'Check back later for updates'}
+              </p>
+            </div>
+          )}
+          {items.map((item, index) => {
+            const itemKey = getItemKey(item)
+            return (
+              <NewsCard
+                key={itemKey}
+                item={item}
+                index={index}
+                highlightTerms={[]}
+                isRead={isRead(item)}
+                isNew={isNew(item)}
+                isSaved={isSaved(item)}
+                commentsOpen={openComments === itemKey}
+                onMarkRead={markRead}
+                onToggleComments={toggleComments}
+                onPreview={openPreview}
+                onToggleBookmark={toggleBookmark}
+              />
+            )
+          })}
+          <LoadMore
+            hasMore={hasMore}
+            isLoading={isLoadingMore}
+            infinite={false}
+            onLoadMore={loadMore}
+          />
+        </motion.div>
+      )}
+      <ItemPreviewDrawer item={previewItem} onClose={closePreview} />
+    </>
+  )
+}
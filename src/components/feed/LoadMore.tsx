@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface LoadMoreProps {
+  hasMore: boolean
+  isLoading: boolean
+  // Load automatically when the end of the feed scrolls into view
+  infinite: boolean
+  onLoadMore: () => void
+}
+
+/**
+ * End-of-feed control: a "Load more" button, or a sentinel that loads the
+ * next page as it scrolls into view
+ */
+export function LoadMore({ hasMore, isLoading, infinite, onLoadMore }: LoadMoreProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!infinite || !hasMore || !sentinel) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+      },
+      { rootMargin: '400px 0px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [infinite, hasMore, onLoadMore])
+
+  if (!hasMore) {
+    return (
+      <p className="py-4 text-center text-sm text-muted-foreground">
+        You&apos;ve reached the end of the feed
+      </p>
+    )
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {isLoading ? (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="h-5 w-5 animate-spin text-muted-foreground"
+          aria-label="Loading more"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99"
+          />
+        </svg>
+      ) : !infinite && (
+        <button
+          onClick={onLoadMore}
+          className="inline-flex items-center rounded-md bg-primary/10 px-4 py-2 text-sm font-medium text-primary hover:bg-primary/20"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useSavedFeeds } from '@/lib/hooks'
+import { SavedFeedRule } from '@/lib/services/saved-feed-service'
+import { SavedFeedEditor } from '@/components/feed/SavedFeedEditor'
+
+/**
+ * Editor for a feed that is only saved once the user saves it
+ */
+export function NewSavedFeed() {
+  const { createFeed } = useSavedFeeds()
+  const router = useRouter()
+
+  const handleSave = (name: string, rules: SavedFeedRule[]) => {
+    const feed = createFeed(name, rules)
+    router.replace(`/feed/${feed.slug}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">New feed</h1>
+      <SavedFeedEditor name="New feed" rules={[]} onSave={handleSave} onCancel={() => router.back()} />
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { formatRelativeTime, NewsItem } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+import { motion } from '@/components/animations/motion'
+import { CommentThread } from '@/components/comments/CommentThread'
+import { CrossPostLinks } from '@/components/items/CrossPostLinks'
+import { ShareMenu } from '@/components/share/ShareMenu'
+import { Highlight } from '@/components/search/Highlight'
+
+interface NewsCardProps {
+  item: NewsItem
+  // Position in the feed, used to stagger the entrance animation
+  index: number
+  highlightTerms: string[]
+  isRead: boolean
+  isNew: boolean
+  isSaved: boolean
+  commentsOpen: boolean
+  onMarkRead: (item: NewsItem) => void
+  onToggleComments: (item: NewsItem) => void
+  onPreview: (item: NewsItem) => void
+  onToggleBookmark: (item: NewsItem) => void
+}
+
+/**
+ * A feed entry with its metadata, actions and inline comment thread
+ */
+export function NewsCard({
+  item,
+  index,
+  highlightTerms,
+  isRead,
+  isNew,
+  isSaved,
+  commentsOpen,
+  onMarkRead,
+  onToggleComments,
+  onPreview,
+  onToggleBookmark
+}: NewsCardProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: Math.min(index, 10) * 0.05, duration: 0.2 }}
+      className={`rounded-lg border border-border/40 bg-card p-4 shadow-sm transition-all hover:shadow-md ${
+        item.mutedBy ? 'opacity-50 hover:opacity-100' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <div>
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => onMarkRead(item)}
+            onAuxClick={() => onMarkRead(item)}
+            className={`text-lg font-medium hover:text-primary hover:underline ${
+              isRead ? 'text-muted-foreground' : ''
+            }`}
+          >
+            <Highlight text={item.title} terms={highlightTerms} />
+          </a>
+          {item.description && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              <Highlight
+                text={item.description.length > 150
+                  ? `${item.description.substring(0, 150)}...`
+                  : item.description}
+                terms={highlightTerms}
+              />
+            </p>
+          )}
+          {item.pollOptions && item.pollOptions.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm">
+              {item.pollOptions.map((option) => (
+                <li key={option.id} className="flex items-center justify-between gap-4 rounded bg-muted/50 px-2 py-1">
+                  <span
+                    className="break-words [&_a]:text-primary [&_a]:underline"
+                    // Option HTML is sanitized when it is normalized
+                    dangerouslySetInnerHTML={{ __html: option.text }}
+                  />
+                  <span className="text-xs text-muted-foreground">{option.points} points</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {item.mutedBy && (
+              <span className="rounded bg-muted px-1.5 py-0.5 font-medium" title="Dimmed by a mute rule">
+                Muted
+              </span>
+            )}
+            {isNew && (
+              <span className="rounded bg-primary px-1.5 py-0.5 font-medium text-primary-foreground">
+                New
+              </span>
+            )}
+            <span className="rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
+              {sourceRegistry.getName(item.source)}
+            </span>
+            {item.kind && item.kind !== 'story' && (
+              <span className="rounded bg-secondary px-1.5 py-0.5 font-medium capitalize text-secondary-foreground">
+                {item.kind}
+              </span>
+            )}
+            <span>•</span>
+            <span>{formatRelativeTime(item.timestamp)}</span>
+            {item.points !== undefined && (
+              <>
+                <span>•</span>
+                <span>{item.points} points</span>
+              </>
+            )}
+            {item.reactions !== undefined && (
+              <>
+                <span>•</span>
+                <span>{item.reactions} reactions</span>
+              </>
+            )}
+            {item.stars !== undefined && (
+              <>
+                <span>•</span>
+                <span>{item.stars} stars</span>
+              </>
+            )}
+            {item.starsGained !== undefined && item.starsGained > 0 && (
+              <>
+                <span>•</span>
+                <span title="Stars gained in the trending window">+{item.starsGained} stars</span>
+              </>
+            )}
+            {item.commentCount !== undefined && (
+              <>
+                <span>•</span>
+                {sourceRegistry.get(item.source)?.capabilities.comments ? (
+                  <button
+                    onClick={() => onToggleComments(item)}
+                    className="hover:text-primary hover:underline"
+                    aria-expanded={commentsOpen}
+                  >
+                    {item.commentCount} comments
+                  </button>
+                ) : (
+                  <span>{item.commentCount} comments</span>
+                )}
+              </>
+            )}
+            {item.language && (
+              <>
+                <span>•</span>
+                <span>{item.language}</span>
+              </>
+            )}
+          </div>
+          {item.crossPosts && item.crossPosts.length > 0 && (
+            <CrossPostLinks crossPosts={item.crossPosts} />
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPreview(item)}
+            className="rounded-full p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+            aria-label="Quick preview"
+            title="Quick preview"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              fill="none"
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+              className="h-4 w-4"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={() => onToggleBookmark(item)}
+            className={`rounded-full p-1.5 hover:bg-accent hover:text-accent-foreground ${
+              isSaved ? 'text-primary' : 'text-muted-foreground'
+            }`}
+            aria-label={isSaved ? 'Remove from saved' : 'Save'}
+            aria-pressed={isSaved}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              fill={isSaved ? 'currentColor' : 'none'}
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+              className="h-4 w-4"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z"
+              />
+            </svg>
+          </button>
+          <ShareMenu item={item} />
+        </div>
+      </div>
+      {commentsOpen && (
+        <div className="mt-4 border-t border-border/40 pt-4">
+          <CommentThread source={item.source} itemId={item.id} />
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useSavedFeeds } from '@/lib/hooks'
+import { NewsSource } from '@/lib/services/news-service'
+
+interface SaveFeedButtonProps {
+  query: string
+  sources: NewsSource[]
+}
+
+/**
+ * Button that saves the enabled sources, their feed types and the current
+ * search as a named feed
+ */
+export function SaveFeedButton({ query, sources }: SaveFeedButtonProps) {
+  const { createFeed } = useSavedFeeds()
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState('')
+  const formRef = useRef<HTMLFormElement>(null)
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (formRef.current && !formRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen])
+
+  const enabledSources = sources.filter(source => source.enabled)
+
+  const open = () => {
+    setName(query.trim())
+    setIsOpen(!isOpen)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const feed = createFeed(name, enabledSources.map(source => ({
+      source: source.id,
+      query: query.trim(),
+      ...(source.feedType ? { feedType: source.feedType } : {})
+    })))
+    setIsOpen(false)
+    router.push(`/feed/${feed.slug}`)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={open}
+        disabled={enabledSources.length === 0}
+        className="whitespace-nowrap rounded-md border border-input px-2.5 py-2 text-sm text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+        title="Save the enabled sources and this search as a feed"
+        aria-expanded={isOpen}
+      >
+        Save feed
+      </button>
+      {isOpen && (
+        <form
+          ref={formRef}
+          onSubmit={handleSubmit}
+          className="absolute right-0 top-full z-20 mt-1 w-64 space-y-2 rounded-md border border-border/40 bg-card p-3 text-sm shadow-lg"
+        >
+          <label className="block text-xs font-medium text-muted-foreground" htmlFor="save-feed-name">
+            Feed name
+          </label>
+          <input
+            id="save-feed-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Rust stuff"
+            autoFocus
+            className="w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <p className="text-xs text-muted-foreground">
+            {enabledSources.map(source => source.name).join(', ')}
+            {query.trim() && <> matching <code>{query.trim()}</code></>}
+          </p>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="w-full rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
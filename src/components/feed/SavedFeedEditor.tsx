@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { sourceRegistry } from '@/lib/sources'
+import { findFeedTypeConflict, SavedFeedRule } from '@/lib/services/saved-feed-service'
+import { QueryInput } from '@/components/search/QueryInput'
+
+interface SavedFeedEditorProps {
+  name: string
+  rules: SavedFeedRule[]
+  onSave: (name: string, rules: SavedFeedRule[]) => void
+  onCancel?: () => void
+}
+
+const selectClassName = "rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+/**
+ * Form for a feed's name and its per-source queries
+ */
+export function SavedFeedEditor({ name: initialName, rules: initialRules, onSave, onCancel }: SavedFeedEditorProps) {
+  const [name, setName] = useState(initialName)
+  const [rules, setRules] = useState<SavedFeedRule[]>(initialRules)
+  const adapters = sourceRegistry.getAll()
+  const conflict = findFeedTypeConflict(rules)
+
+  const updateRule = (index: number, update: Partial<SavedFeedRule>) => {
+    setRules(prev => prev.map((rule, i) => {
+      if (i !== index) return rule
+      const next = { ...rule, ...update }
+      // A feed type only applies to the source it was picked for
+      if (update.source && update.source !== rule.source) delete next.feedType
+      return next
+    }))
+  }
+
+  const addRule = () => {
+    setRules(prev => [...prev, { source: adapters[0]?.id ?? 'hackernews', query: '' }])
+  }
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSave = () => {
+    onSave(name.trim(), rules.map(rule => ({ ...rule, query: rule.query.trim() })))
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border/40 bg-card p-4 shadow-sm">
+      <div className="space-y-1">
+        <label className="block text-xs font-medium text-muted-foreground" htmlFor="feed-name">
+          Name
+        </label>
+        <input
+          id="feed-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Rust stuff"
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">
+          Items from any of these sources that match their query
+        </p>
+        {rules.map((rule, index) => {
+          const adapter = sourceRegistry.get(rule.source)
+          return (
+            <div key={index} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <select
+                value={rule.source}
+                onChange={(e) => updateRule(index, { source: e.target.value })}
+                className={selectClassName}
+                aria-label="Source"
+              >
+                {!adapter && <option value={rule.source}>{rule.source}</option>}
+                {adapters.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+              {adapter?.feedTypes && (
+                <select
+                  value={rule.feedType ?? ''}
+                  onChange={(e) => updateRule(index, { feedType: e.target.value || undefined })}
+                  className={selectClassName}
+                  aria-label="Feed type"
+                >
+                  <option value="">Sidebar choice</option>
+                  {adapter.feedTypes.map((feedType) => (
+                    <option key={feedType.id} value={feedType.id}>
+                      {feedType.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <QueryInput
+                value={rule.query}
+                onChange={(query) => updateRule(index, { query })}
+                placeholder="Everything (or e.g. lang:rust)"
+              />
+              <button
+                onClick={() => removeRule(index)}
+                className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                aria-label="Remove source"
+                title="Remove source"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          )
+        })}
+        <button
+          onClick={addRule}
+          className="text-sm text-primary hover:underline"
+        >
+          + Add source
+        </button>
+        {conflict && (
+          <p className="text-xs text-destructive">
+            A feed reads one list per source, so every {sourceRegistry.getName(conflict)} rule needs the same feed type.
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || rules.length === 0 || conflict !== null}
+          className="inline-flex items-center rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          Save
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center rounded-md px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
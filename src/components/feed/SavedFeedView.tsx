@@ -0,0 +1,149 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useSavedFeeds } from '@/lib/hooks'
+import { sourceRegistry } from '@/lib/sources'
+import {
+  createFeedMatcher,
+  getFeedFilter,
+  getFeedSharePath,
+  SavedFeedDefinition,
+  SavedFeedRule
+} from '@/lib/services/saved-feed-service'
+import { copyToClipboard } from '@/lib/utils'
+import { FeedItems } from '@/components/feed/FeedItems'
+import { SavedFeedEditor } from '@/components/feed/SavedFeedEditor'
+
+interface SavedFeedViewProps {
+  slug: string
+  // Definition carried by a share link, used when the feed is not saved here
+  shared: SavedFeedDefinition | null
+}
+
+const buttonClassName = "rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+
+/**
+ * A saved feed: its rules, actions and the matching items
+ */
+export function SavedFeedView({ slug, shared }: SavedFeedViewProps) {
+  const { feeds, isLoaded, createFeed, updateFeed, removeFeed } = useSavedFeeds()
+  const router = useRouter()
+  const [isEditing, setIsEditing] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const saved = feeds.find(feed => feed.slug === slug) ?? null
+  const feed = saved ?? shared
+
+  if (!isLoaded) {
+    return <div className="h-8 w-1/3 animate-pulse rounded bg-muted" />
+  }
+
+  if (!feed) {
+    return (
+      <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+        <h1 className="font-medium">Feed not found</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          This feed isn&apos;t saved in this browser.
+        </p>
+        <Link href="/" className="mt-4 inline-block text-sm text-primary hover:underline">
+          Back to feed
+        </Link>
+      </div>
+    )
+  }
+
+  const handleShare = async () => {
+    try {
+      await copyToClipboard(`${window.location.origin}${getFeedSharePath(feed)}`)
+      setStatus('Link copied')
+    } catch (err) {
+      console.error('Error copying feed link:', err);
+      setStatus('Copy failed')
+    }
+  }
+
+  const handleSaveShared = () => {
+    const created = createFeed(feed.name, feed.rules)
+    if (created.slug !== slug) router.replace(`/feed/${created.slug}`)
+  }
+
+  const handleEdit = (name: string, rules: SavedFeedRule[]) => {
+    updateFeed(slug, { name, rules })
+    setIsEditing(false)
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the feed "${feed.name}"?`)) return
+    removeFeed(slug)
+    router.push('/')
+  }
+
+  const showEditor = !!saved && isEditing
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{feed.name}</h1>
+          <div className="flex flex-wrap gap-1.5 text-xs">
+            {feed.rules.map((rule, index) => (
+              <span key={index} className="rounded bg-primary/10 px-1.5 py-0.5 text-primary">
+                <span className="font-medium">{sourceRegistry.getName(rule.source)}</span>
+                {rule.feedType && ` (${rule.feedType})`}
+                {rule.query && <> · <code>{rule.query}</code></>}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {status && <span role="status" className="text-xs text-muted-foreground">{status}</span>}
+          <button onClick={handleShare} className={buttonClassName}>
+            Copy link
+          </button>
+          {saved ? (
+            <>
+              <button onClick={() => setIsEditing(!isEditing)} className={buttonClassName} aria-expanded={showEditor}>
+                Edit
+              </button>
+              <button onClick={handleDelete} className={`${buttonClassName} text-destructive`}>
+                Delete
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleSaveShared}
+              className="rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+            >
+              Save feed
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showEditor && (
+        <SavedFeedEditor
+          name={saved.name}
+          rules={saved.rules}
+          onSave={handleEdit}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+
+      {feed.rules.length > 0 && (
+        // Remount when the rules change so the feed is fetched again
+        <SavedFeedItems key={JSON.stringify(feed.rules)} rules={feed.rules} />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Items of the feed's sources that match one of its rules
+ */
+function SavedFeedItems({ rules }: { rules: SavedFeedRule[] }) {
+  const filter = useMemo(() => getFeedFilter({ rules }), [rules])
+  const matches = useMemo(() => createFeedMatcher({ rules }), [rules])
+  return <FeedItems filter={filter} matches={matches} />
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useFollowing } from '@/lib/hooks'
+import { NewsFilter } from '@/lib/services/news-service'
+import { FOLLOWING_SOURCE_ID } from '@/lib/services/follow-service'
+import { FeedItems } from '@/components/feed/FeedItems'
+
+// The Following source reads the follows from its settings, so naming it is enough
+const FOLLOWING_FILTER: NewsFilter = { sources: [FOLLOWING_SOURCE_ID] }
+
+/**
+ * New releases, repositories, submissions and articles of everything followed
+ */
+export function FollowingFeed() {
+  const { follows, isLoaded } = useFollowing()
+
+  if (!isLoaded) {
+    return <div className="h-8 w-1/3 animate-pulse rounded bg-muted" />
+  }
+
+  if (follows.length === 0) {
+    return (
+      <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+        <h3 className="font-medium">Not following anything yet</h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Follow a repository, GitHub user or org, Hacker News user or DEV.to author to see their latest work here
+        </p>
+      </div>
+    )
+  }
+
+  return <FeedItems filter={FOLLOWING_FILTER} emptyTitle="Nothing new from the people you follow" />
+}
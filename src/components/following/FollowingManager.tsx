@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { useFollowing } from '@/lib/hooks'
+import { FOLLOW_KINDS, FollowKind, validateFollow } from '@/lib/services/follow-service'
+
+/**
+ * Form for following repositories and people, and the list of current follows
+ */
+export function FollowingManager() {
+  const { follows, isLoaded, follow, unfollow } = useFollowing()
+  const [kind, setKind] = useState<FollowKind>('repos')
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const kindInfo = FOLLOW_KINDS.find(info => info.id === kind) ?? FOLLOW_KINDS[0]
+
+  const handleFollow = (e: React.FormEvent) => {
+    e.preventDefault()
+    const validationError = validateFollow(kind, name, follows)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    follow(kind, name)
+    setName('')
+    setError(null)
+  }
+
+  return (
+    <section className="space-y-4">
+      <form onSubmit={handleFollow} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as FollowKind)
+            setError(null)
+          }}
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="What to follow"
+        >
+          {FOLLOW_KINDS.map((info) => (
+            <option key={info.id} value={info.id}>{info.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value)
+            setError(null)
+          }}
+          placeholder={kindInfo.placeholder}
+          className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="Name to follow"
+          aria-invalid={!!error}
+        />
+        <button
+          type="submit"
+          className="rounded-md bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+        >
+          Follow
+        </button>
+      </form>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoaded && follows.length > 0 && (
+        <dl className="space-y-3 rounded-lg border border-border/40 bg-card p-4 text-sm">
+          {FOLLOW_KINDS.map((info) => {
+            const names = follows.filter(f => f.kind === info.id)
+            if (names.length === 0) return null
+            return (
+              <div key={info.id}>
+                <dt className="text-xs font-medium text-muted-foreground">{info.name}</dt>
+                <dd className="mt-1 flex flex-wrap gap-1.5">
+                  {names.map((followed) => (
+                    <span
+                      key={followed.name}
+                      className="inline-flex items-center gap-1 rounded bg-primary/10 py-0.5 pl-1.5 pr-0.5 text-xs text-primary"
+                    >
+                      {followed.name}
+                      <button
+                        onClick={() => unfollow(followed.kind, followed.name)}
+                        className="rounded px-1 hover:bg-primary/20"
+                        aria-label={`Unfollow ${followed.name}`}
+                        title="Unfollow"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </dd>
+              </div>
+            )
+          })}
+        </dl>
+      )}
+    </section>
+  )
+}
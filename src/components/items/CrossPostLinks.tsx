@@ -0,0 +1,42 @@
+'use client'
+
+import Link from 'next/link'
+import { CrossPost } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+
+interface CrossPostLinksProps {
+  crossPosts: CrossPost[]
+}
+
+/**
+ * The other sources a merged story was found on, with their own stats
+ */
+export function CrossPostLinks({ crossPosts }: CrossPostLinksProps) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      <span>Also on</span>
+      {crossPosts.map((post) => {
+        const stats = [
+          post.points !== undefined && `${post.points} points`,
+          post.reactions !== undefined && `${post.reactions} reactions`,
+          post.stars !== undefined && `${post.stars} stars`,
+          post.commentCount !== undefined && `${post.commentCount} comments`,
+        ].filter(Boolean)
+
+        return (
+          <Link
+            key={`${post.source}-${post.id}`}
+            href={`/item/${post.source}/${post.id}`}
+            className="inline-flex items-center gap-1.5 hover:text-primary"
+            title={post.title}
+          >
+            <span className="rounded bg-secondary px-1.5 py-0.5 font-medium text-secondary-foreground">
+              {sourceRegistry.getName(post.source)}
+            </span>
+            {stats.length > 0 && <span className="hover:underline">{stats.join(' • ')}</span>}
+          </Link>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { formatRelativeTime, ItemDetail } from '@/lib/api'
+import { useFollowing, useReadState } from '@/lib/hooks'
+import { sourceRegistry } from '@/lib/sources'
+import { FollowKind, validateFollow } from '@/lib/services/follow-service'
+import { CommentThread } from '@/components/comments/CommentThread'
+
+// Sources whose author field is an account name that can be followed;
+// DEV.to only gives the display name
+const FOLLOWABLE_AUTHORS: Record<string, FollowKind> = {
+  hackernews: 'hackernews',
+  github: 'github',
+}
+
+interface ItemDetailViewProps {
+  detail: ItemDetail
+  // Drawer variant: smaller heading, no related items
+  compact?: boolean
+}
+
+/**
+ * Full content, metadata, comments and related items of a single item
+ */
+export function ItemDetailView({ detail, compact = false }: ItemDetailViewProps) {
+  const { item, content, related } = detail
+  const adapter = sourceRegistry.get(item.source)
+  const { markRead } = useReadState()
+  const { follows, isLoaded, follow, unfollow, isFollowing } = useFollowing()
+  const followKind = FOLLOWABLE_AUTHORS[item.source]
+  const followingAuthor = !!followKind && isFollowing(followKind, item.author)
+  const canFollowAuthor = !!followKind && isLoaded
+    && (followingAuthor || !validateFollow(followKind, item.author, follows))
+
+  // Viewing the full item counts as reading it
+  useEffect(() => {
+    markRead(item)
+  }, [item, markRead])
+
+  const stats = [
+    item.points !== undefined && `${item.points} points`,
+    item.reactions !== undefined && `${item.reactions} reactions`,
+    item.stars !== undefined && `${item.stars} stars`,
+    item.forks !== undefined && `${item.forks} forks`,
+    item.commentCount !== undefined && `${item.commentCount} comments`,
+    item.readingTime !== undefined && `${item.readingTime} min read`,
+    item.language,
+  ].filter(Boolean)
+
+  return (
+    <article className="space-y-6">
+      <header className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span className="rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
+            {sourceRegistry.getName(item.source)}
+          </span>
+          <span>•</span>
+          <span>{formatRelativeTime(item.timestamp)}</span>
+          {stats.map((stat) => (
+            <span key={String(stat)} className="flex items-center gap-2">
+              <span>•</span>
+              <span>{stat}</span>
+            </span>
+          ))}
+        </div>
+        <h1 className={compact ? 'text-xl font-bold' : 'text-3xl font-bold'}>{item.title}</h1>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {item.authorImage && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={item.authorImage} alt="" className="h-6 w-6 rounded-full" />
+          )}
+          {item.authorUrl ? (
+            <a href={item.authorUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {item.author}
+            </a>
+          ) : (
+            <span>{item.author}</span>
+          )}
+          {canFollowAuthor && (
+            <button
+              onClick={() => followingAuthor ? unfollow(followKind, item.author) : follow(followKind, item.author)}
+              className="rounded-md border border-input px-2 py-0.5 text-xs hover:bg-accent hover:text-accent-foreground"
+              aria-pressed={followingAuthor}
+            >
+              {followingAuthor ? 'Following' : 'Follow'}
+            </button>
+          )}
+        </div>
+        {item.tags && item.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {item.tags.map((tag) => (
+              <span key={tag} className="rounded bg-secondary px-1.5 py-0.5 text-xs text-secondary-foreground">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+        {item.url && (
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center rounded-md bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary hover:bg-primary/20"
+          >
+            Open original
+          </a>
+        )}
+      </header>
+
+      {item.description && !content && (
+        <p className="text-muted-foreground">{item.description}</p>
+      )}
+
+      {content && (
+        content.format === 'html' ? (
+          <div
+            className="break-words text-sm leading-relaxed [&_a]:text-primary [&_a]:underline [&_h1]:mt-6 [&_h1]:text-2xl [&_h1]:font-bold [&_h2]:mt-6 [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:mt-4 [&_h3]:font-semibold [&_li]:ml-5 [&_ol]:list-decimal [&_p]:mt-3 [&_pre]:mt-3 [&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-3 [&_ul]:list-disc"
+            // Content HTML is sanitized when it is fetched
+            dangerouslySetInnerHTML={{ __html: content.body }}
+          />
+        ) : (
+          <pre className="overflow-x-auto whitespace-pre-wrap break-words rounded-lg bg-muted p-4 font-mono text-sm">
+            {content.body}
+          </pre>
+        )
+      )}
+
+      {adapter?.capabilities.comments && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Comments</h2>
+          <CommentThread source={item.source} itemId={item.id} />
+        </section>
+      )}
+
+      {!compact && related.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Related</h2>
+          <ul className="space-y-2">
+            {related.map((relatedItem) => (
+              <li key={`${relatedItem.source}-${relatedItem.id}`} className="text-sm">
+                <Link
+                  href={`/item/${relatedItem.source}/${relatedItem.id}`}
+                  className="font-medium hover:text-primary hover:underline"
+                >
+                  {relatedItem.title}
+                </Link>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {sourceRegistry.getName(relatedItem.source)} • {formatRelativeTime(relatedItem.timestamp)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </article>
+  )
+}
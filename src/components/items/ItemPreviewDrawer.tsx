@@ -0,0 +1,111 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AnimatePresence } from 'framer-motion'
+import { feedApiClient, ItemDetail, NewsItem } from '@/lib/api'
+import { motion } from '@/components/animations/motion'
+import { ItemDetailView } from './ItemDetailView'
+
+interface ItemPreviewDrawerProps {
+  item: NewsItem | null
+  onClose: () => void
+}
+
+/**
+ * Slide-over quick preview of an item, opened from the feed
+ */
+export function ItemPreviewDrawer({ item, onClose }: ItemPreviewDrawerProps) {
+  const [detail, setDetail] = useState<ItemDetail | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!item) return
+    let cancelled = false
+    setDetail(null)
+    setError(null)
+
+    feedApiClient.getItemDetail(item.source, item.id)
+      .then(result => {
+        if (!cancelled) setDetail(result)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error loading item preview:', err);
+        setError(err instanceof Error ? err : new Error('Failed to load preview'))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [item])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!item) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [item, onClose])
+
+  return (
+    <AnimatePresence>
+      {item && (
+        <>
+          <motion.div
+            key="backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 z-50 bg-background/60 backdrop-blur-sm"
+          />
+          <motion.aside
+            key="drawer"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.2 }}
+            role="dialog"
+            aria-modal="true"
+            aria-label={item.title}
+            className="fixed inset-y-0 right-0 z-50 flex w-full max-w-2xl flex-col border-l border-border/40 bg-background shadow-xl"
+          >
+            <div className="flex items-center justify-between border-b border-border/40 px-4 py-3">
+              <Link
+                href={`/item/${item.source}/${item.id}`}
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Open full page
+              </Link>
+              <button
+                onClick={onClose}
+                className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                aria-label="Close preview"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4">
+              {error ? (
+                <p className="text-sm text-destructive">{error.message}</p>
+              ) : detail ? (
+                <ItemDetailView detail={detail} compact />
+              ) : (
+                <div className="space-y-3">
+                  <div className="h-4 w-1/3 animate-pulse rounded bg-muted"></div>
+                  <div className="h-7 w-3/4 animate-pulse rounded bg-muted"></div>
+                  <div className="h-32 animate-pulse rounded bg-muted"></div>
+                </div>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
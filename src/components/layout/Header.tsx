@@ -23,6 +23,12 @@ export function Header() {
             <Link href="/" className="px-4 py-2 hover:text-primary">
               Home
             </Link>
+            <Link href="/following" className="px-4 py-2 hover:text-primary">
+              Following
+            </Link>
+            <Link href="/saved" className="px-4 py-2 hover:text-primary">
+              Saved
+            </Link>
             <Link href="/sources" className="px-4 py-2 hover:text-primary">
               Sources
             </Link>
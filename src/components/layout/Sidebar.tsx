@@ -1,21 +1,40 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useMemo } from 'react'
 import Link from 'next/link'
-import { useNews } from '@/lib/hooks'
+import { usePathname, useRouter } from 'next/navigation'
+import {
+  useFeedActions,
+  useFeedState,
+  useFeedStore,
+  useNewsItems,
+  useNewsSources,
+  useReadState,
+  useSavedFeeds,
+  useSettings,
+  useSourceErrors
+} from '@/lib/hooks'
+import {
+  createFeedMatcher,
+  getFeedFilter,
+  NEW_FEED_SLUG,
+  SavedFeedRule
+} from '@/lib/services/saved-feed-service'
 
 export function Sidebar() {
-  const { sources, sourceErrors, updateSource, refreshNews, isLoading, setRefreshInterval } = useNews()
-  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false)
-
-  // Set up auto-refresh when enabled/disabled
-  useEffect(() => {
-    if (autoRefreshEnabled) {
-      setRefreshInterval(5 * 60 * 1000) // 5 minutes
-    } else {
-      setRefreshInterval(null)
-    }
-  }, [autoRefreshEnabled, setRefreshInterval])
+  const news = useNewsItems()
+  const sources = useNewsSources()
+  const sourceErrors = useSourceErrors()
+  const isLoading = useFeedState(state => state.isLoading)
+  const autoRefreshEnabled = useFeedState(state => state.autoRefresh)
+  const { updateSource, setFeedType, refresh, setAutoRefresh } = useFeedActions()
+  const { getUnreadCounts } = useReadState()
+  const { feeds, moveFeed } = useSavedFeeds()
+  const { settings } = useSettings()
+  const { refreshIntervalMinutes } = settings
+  const isAdvanced = settings.mode === 'advanced'
+  const pathname = usePathname()
+  const router = useRouter()
 
   const toggleSource = (id: string) => {
     const source = sources.find(s => s.id === id)
@@ -26,11 +45,18 @@ export function Sidebar() {
   }
 
   const handleRefresh = () => {
-    refreshNews()
+    refresh()
   }
 
   const toggleAutoRefresh = () => {
-    setAutoRefreshEnabled(!autoRefreshEnabled)
+    setAutoRefresh(!autoRefreshEnabled)
+  }
+
+  const unreadCounts = getUnreadCounts(news)
+
+  // Nothing is saved until the feed is, so a feed abandoned unsaved leaves no trace
+  const handleNewFeed = () => {
+    router.push(`/feed/${NEW_FEED_SLUG}`)
   }
 
   // Find error for a specific source
@@ -72,7 +98,7 @@ export function Sidebar() {
                   ? 'text-primary' 
                   : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
               }`}
-              title={autoRefreshEnabled ? "Auto-refresh on (5 minutes)" : "Auto-refresh off"}
+              title={autoRefreshEnabled ? `Auto-refresh on (${refreshIntervalMinutes} minutes)` : "Auto-refresh off"}
             >
               <svg 
                 xmlns="http://www.w3.org/2000/svg" 
@@ -121,14 +147,38 @@ export function Sidebar() {
                         </span>
                         {source.name}
                       </div>
-                      {error && (
-                        <span className="text-destructive" title={error.message}>
-                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
-                          </svg>
-                        </span>
-                      )}
+                      <div className="flex items-center space-x-1">
+                        {source.enabled && unreadCounts[source.id] > 0 && (
+                          <span
+                            className="rounded-full bg-primary/10 px-1.5 text-xs font-medium text-primary"
+                            title={`${unreadCounts[source.id]} unread`}
+                          >
+                            {unreadCounts[source.id]}
+                          </span>
+                        )}
+                        {error && (
+                          <span className="text-destructive" title={error.message}>
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
+                            </svg>
+                          </span>
+                        )}
+                      </div>
                     </button>
+                    {isAdvanced && source.enabled && source.feedTypes && (
+                      <select
+                        value={source.feedType}
+                        onChange={(e) => setFeedType(source.id, e.target.value)}
+                        className="ml-7 w-[calc(100%-1.75rem)] rounded-md border border-input bg-background px-2 py-1 text-xs text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        aria-label={`${source.name} feed`}
+                      >
+                        {source.feedTypes.map((feedType) => (
+                          <option key={feedType.id} value={feedType.id}>
+                            {feedType.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                     {error && source.enabled && (
                       <div className="ml-7 rounded-md bg-destructive/10 px-3 py-1 text-xs text-destructive">
                         {error.message.length > 50 
@@ -141,6 +191,65 @@ export function Sidebar() {
               );
             })}
           </ul>
+          <div className="mt-4 flex items-center justify-between px-2 py-2">
+            <h3 className="font-medium">Feeds</h3>
+            <button
+              onClick={handleNewFeed}
+              className="rounded-md p-1 text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground"
+              title="New feed"
+              aria-label="New feed"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+              </svg>
+            </button>
+          </div>
+          {feeds.length === 0 ? (
+            <p className="px-3 text-xs text-muted-foreground">
+              Save a search as a feed to keep it here.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {feeds.map((feed, index) => (
+                <li key={feed.slug} className="group flex items-center">
+                  <Link
+                    href={`/feed/${feed.slug}`}
+                    className={`flex min-w-0 flex-1 items-center justify-between rounded-md px-3 py-2 text-sm ${
+                      pathname === `/feed/${feed.slug}`
+                        ? 'bg-accent text-accent-foreground'
+                        : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+                    }`}
+                  >
+                    <span className="truncate">{feed.name}</span>
+                    {/* Remount when the rules change so the feed is fetched again */}
+                    <SavedFeedUnreadCount key={JSON.stringify(feed.rules)} rules={feed.rules} />
+                  </Link>
+                  <div className="flex flex-col opacity-0 focus-within:opacity-100 group-hover:opacity-100">
+                    <button
+                      onClick={() => moveFeed(feed.slug, index - 1)}
+                      disabled={index === 0}
+                      className="rounded p-0.5 text-muted-foreground hover:text-accent-foreground disabled:invisible"
+                      aria-label={`Move ${feed.name} up`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-3 w-3">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => moveFeed(feed.slug, index + 1)}
+                      disabled={index === feeds.length - 1}
+                      className="rounded p-0.5 text-muted-foreground hover:text-accent-foreground disabled:invisible"
+                      aria-label={`Move ${feed.name} down`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-3 w-3">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+                      </svg>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </nav>
         <div className="border-t border-border/40 p-4">
           <div className="space-y-1">
@@ -168,4 +277,27 @@ export function Sidebar() {
       </div>
     </aside>
   )
-}
\ No newline at end of file
+}
+
+/**
+ * Unread items of a saved feed, counted over the feed's own fetched items
+ */
+function SavedFeedUnreadCount({ rules }: { rules: SavedFeedRule[] }) {
+  const store = useFeedStore(useMemo(() => getFeedFilter({ rules }), [rules]))
+  const news = useNewsItems(store)
+  const { isRead } = useReadState()
+  const count = useMemo(() => {
+    const matches = createFeedMatcher({ rules })
+    return news.filter(item => matches(item) && !isRead(item)).length
+  }, [news, rules, isRead])
+
+  if (count === 0) return null
+  return (
+    <span
+      className="ml-2 rounded-full bg-primary/10 px-1.5 text-xs font-medium text-primary"
+      title={`${count} unread`}
+    >
+      {count}
+    </span>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { Fragment, useMemo } from 'react'
+
+interface HighlightProps {
+  text: string
+  terms: string[]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Text with every occurrence of the search terms marked
+ */
+export function Highlight({ text, terms }: HighlightProps) {
+  const pattern = useMemo(() => {
+    const words = terms.filter(Boolean).sort((a, b) => b.length - a.length)
+    return words.length > 0 ? new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi') : null
+  }, [terms])
+
+  if (!pattern) return <>{text}</>
+
+  // Splitting on a capturing group puts the matches at odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded-sm bg-primary/20 text-inherit">{part}</mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  )
+}
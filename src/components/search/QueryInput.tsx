@@ -0,0 +1,90 @@
+'use client'
+
+import { useMemo, useRef } from 'react'
+import { parseQuery, QueryToken } from '@/lib/services/search-query'
+
+interface QueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+}
+
+const TOKEN_CLASSES: Record<QueryToken['kind'], string> = {
+  field: 'text-primary',
+  phrase: 'text-emerald-600 dark:text-emerald-400',
+  term: 'text-foreground',
+}
+
+// Text sizing shared by the input and the highlight layer behind it
+const TEXT_CLASS = 'py-2 pl-8 pr-4 text-sm'
+
+/**
+ * Search input that colors recognized query syntax as you type
+ */
+export function QueryInput({ value, onChange, placeholder }: QueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const overlayRef = useRef<HTMLDivElement>(null)
+
+  // Split the input into highlighted tokens and the plain text between them
+  const segments = useMemo(() => {
+    const result: Array<{ text: string; className?: string }> = []
+    let position = 0
+    parseQuery(value).tokens.forEach(token => {
+      if (token.start > position) result.push({ text: value.slice(position, token.start) })
+      result.push({
+        text: token.raw,
+        className: token.negated ? 'text-destructive line-through' : TOKEN_CLASSES[token.kind],
+      })
+      position = token.end
+    })
+    if (position < value.length) result.push({ text: value.slice(position) })
+    return result
+  }, [value])
+
+  // Keep the highlight layer aligned when long queries scroll horizontally
+  const syncScroll = () => {
+    if (overlayRef.current && inputRef.current) {
+      overlayRef.current.scrollLeft = inputRef.current.scrollLeft
+    }
+  }
+
+  return (
+    <div className="relative w-full">
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="absolute left-2.5 top-2.5 z-10 h-4 w-4 text-muted-foreground"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+        />
+      </svg>
+      <div
+        ref={overlayRef}
+        aria-hidden="true"
+        className={`pointer-events-none absolute inset-0 overflow-hidden whitespace-pre rounded-md border border-transparent ${TEXT_CLASS}`}
+      >
+        {segments.map((segment, i) => (
+          <span key={i} className={segment.className}>{segment.text}</span>
+        ))}
+      </div>
+      <input
+        ref={inputRef}
+        type="search"
+        placeholder={placeholder}
+        title='Filters: source: lang: author: tag: kind: stars:>500 points: comments: after:2026-10-01 before: -exclude "exact phrase"'
+        className={`relative w-full rounded-md border border-input bg-transparent text-transparent caret-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${TEXT_CLASS}`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={syncScroll}
+        onKeyUp={syncScroll}
+        spellCheck={false}
+      />
+    </div>
+  )
+}
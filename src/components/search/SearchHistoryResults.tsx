@@ -0,0 +1,93 @@
+'use client'
+
+import Link from 'next/link'
+import { formatRelativeTime } from '@/lib/api'
+import { useSearchHistory } from '@/lib/hooks'
+import { sourceRegistry } from '@/lib/sources'
+import { Highlight } from './Highlight'
+
+interface SearchHistoryResultsProps {
+  query: string
+  highlightTerms: string[]
+}
+
+/**
+ * Results from the local index of every item fetched so far
+ */
+export function SearchHistoryResults({ query, highlightTerms }: SearchHistoryResultsProps) {
+  const { results, stats, isSearching, error } = useSearchHistory(query)
+
+  const summary = stats && stats.documents > 0
+    ? `Searching ${stats.documents} items seen since ${
+        stats.oldestAt ? new Date(stats.oldestAt).toLocaleDateString() : 'your first visit'
+      }`
+    : 'Items you load in the feed are added to your search history'
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">{summary}</p>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {!query.trim() ? (
+        <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+          <h3 className="font-medium">Search your history</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Find anything that has appeared in your feed, even after it dropped off every source
+          </p>
+        </div>
+      ) : isSearching && results.length === 0 ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="rounded-lg border border-border/40 bg-card p-4 shadow-sm">
+              <div className="h-5 w-3/4 animate-pulse rounded bg-muted"></div>
+              <div className="mt-2 h-4 w-1/3 animate-pulse rounded bg-muted"></div>
+            </div>
+          ))}
+        </div>
+      ) : results.length === 0 ? (
+        <div className="rounded-lg border border-border/40 bg-card p-8 text-center">
+          <h3 className="font-medium">Nothing in your history matches</h3>
+          <p className="mt-1 text-sm text-muted-foreground">Try fewer or shorter words</p>
+        </div>
+      ) : (
+        <ul className="grid gap-3">
+          {results.map(({ item, lastSeenAt }) => (
+            <li
+              key={`${item.source}-${item.id}`}
+              className="rounded-lg border border-border/40 bg-card p-4 shadow-sm"
+            >
+              <a
+                href={item.url || `/item/${item.source}/${item.id}`}
+                target={item.url ? '_blank' : undefined}
+                rel="noopener noreferrer"
+                className="font-medium hover:text-primary hover:underline"
+              >
+                <Highlight text={item.title} terms={highlightTerms} />
+              </a>
+              {item.description && (
+                <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">
+                  <Highlight text={item.description} terms={highlightTerms} />
+                </p>
+              )}
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
+                  {sourceRegistry.getName(item.source)}
+                </span>
+                <span>{item.author}</span>
+                <span>•</span>
+                <span>published {formatRelativeTime(item.timestamp)}</span>
+                <span>•</span>
+                <span>last seen {formatRelativeTime(Math.floor(lastSeenAt / 1000))}</span>
+                <span>•</span>
+                <Link href={`/item/${item.source}/${item.id}`} className="hover:text-primary hover:underline">
+                  details
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useTheme } from '@/components/ThemeProvider'
+import { useSettings } from '@/lib/hooks'
+import { InterfaceMode, REFRESH_INTERVALS } from '@/lib/services/settings-service'
+
+const THEMES = [
+  { id: 'light', name: 'Light' },
+  { id: 'dark', name: 'Dark' },
+  { id: 'system', name: 'System' },
+] as const
+
+const MODES: Array<{ id: InterfaceMode; name: string; description: string }> = [
+  { id: 'simple', name: 'Simple', description: 'Just the feed and search' },
+  { id: 'advanced', name: 'Advanced', description: 'Sorting, search history, feed types and saved feeds' },
+]
+
+/**
+ * Settings section for theme, interface mode and auto-refresh
+ */
+export function GeneralSettings() {
+  const { theme, setTheme } = useTheme()
+  const { settings, updateSettings } = useSettings()
+
+  const optionClassName = (active: boolean) => `rounded-md border px-3 py-2 text-left text-sm ${
+    active
+      ? 'border-primary bg-primary/10 text-primary'
+      : 'border-input text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+  }`
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold">General</h2>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Theme</h3>
+        <div className="flex gap-2" role="group" aria-label="Theme">
+          {THEMES.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setTheme(option.id)}
+              className={optionClassName(theme === option.id)}
+              aria-pressed={theme === option.id}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Mode</h3>
+        <div className="grid gap-2 sm:grid-cols-2" role="group" aria-label="Mode">
+          {MODES.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => updateSettings({ mode: option.id })}
+              className={optionClassName(settings.mode === option.id)}
+              aria-pressed={settings.mode === option.id}
+            >
+              <span className="block font-medium">{option.name}</span>
+              <span className="block text-xs text-muted-foreground">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium" htmlFor="refresh-interval">
+          Auto-refresh interval
+        </label>
+        <select
+          id="refresh-interval"
+          value={settings.refreshIntervalMinutes}
+          onChange={(e) => updateSettings({ refreshIntervalMinutes: Number(e.target.value) })}
+          className="rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          {REFRESH_INTERVALS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              Every {minutes} minute{minutes === 1 ? '' : 's'}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground">
+          Used when auto-refresh is switched on from the feed or the sidebar.
+        </p>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { useMuteRules } from '@/lib/hooks'
+import { MUTE_FIELDS, MuteAction, MuteField, validateMuteRule } from '@/lib/services/mute-rules'
+
+const selectClassName = "rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+/**
+ * Settings section for adding, toggling and removing mute rules
+ */
+export function MuteRulesSettings() {
+  const { rules, hiddenCounts, addRule, updateRule, removeRule } = useMuteRules()
+  const [field, setField] = useState<MuteField>('keyword')
+  const [pattern, setPattern] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [action, setAction] = useState<MuteAction>('hide')
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    const error = validateMuteRule({ pattern, regex })
+    if (error) {
+      setFormError(error)
+      return
+    }
+    addRule({ field, pattern, regex, action })
+    setPattern('')
+    setFormError(null)
+  }
+
+  const getFieldName = (id: MuteField) => MUTE_FIELDS.find(f => f.id === id)?.name ?? id
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Muted content</h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Hide or dim items by keyword, link domain, author, language or tag. Keywords match whole words;
+          turn on regex for patterns like <code>^Show HN</code>.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          value={field}
+          onChange={(e) => setField(e.target.value as MuteField)}
+          className={selectClassName}
+          aria-label="Match"
+        >
+          {MUTE_FIELDS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => {
+            setPattern(e.target.value)
+            setFormError(null)
+          }}
+          placeholder={MUTE_FIELDS.find(f => f.id === field)?.placeholder}
+          className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="Pattern"
+          aria-invalid={!!formError}
+        />
+        <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+          <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+          Regex
+        </label>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as MuteAction)}
+          className={selectClassName}
+          aria-label="Action"
+        >
+          <option value="hide">Hide</option>
+          <option value="dim">Dim</option>
+        </select>
+        <button
+          type="submit"
+          className="rounded-md bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+        >
+          Add rule
+        </button>
+      </form>
+      {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+      {rules.length === 0 ? (
+        <p className="rounded-lg border border-border/40 bg-card p-4 text-center text-sm text-muted-foreground">
+          No mute rules yet.
+        </p>
+      ) : (
+        <ul className="divide-y divide-border/40 rounded-lg border border-border/40 bg-card">
+          {rules.map((rule) => {
+            const error = validateMuteRule(rule)
+            return (
+              <li key={rule.id} className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                />
+                <span className="rounded bg-secondary px-1.5 py-0.5 text-xs font-medium text-secondary-foreground">
+                  {getFieldName(rule.field)}
+                </span>
+                <code className={`flex-1 truncate ${rule.enabled ? '' : 'text-muted-foreground line-through'}`}>
+                  {rule.regex ? `/${rule.pattern}/i` : rule.pattern}
+                </code>
+                {error && <span className="text-xs text-destructive" title={error}>Invalid</span>}
+                <span className="text-xs text-muted-foreground" title="Distinct items this rule has matched">
+                  {hiddenCounts[rule.id] ?? 0} {rule.action === 'dim' ? 'dimmed' : 'hidden'}
+                </span>
+                <select
+                  value={rule.action}
+                  onChange={(e) => updateRule(rule.id, { action: e.target.value as MuteAction })}
+                  className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+                  aria-label="Action"
+                >
+                  <option value="hide">Hide</option>
+                  <option value="dim">Dim</option>
+                </select>
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-accent hover:text-destructive"
+                  aria-label="Delete rule"
+                  title="Delete rule"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
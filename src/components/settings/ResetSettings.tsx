@@ -0,0 +1,33 @@
+'use client'
+
+import { useTheme } from '@/components/ThemeProvider'
+import { useSettings } from '@/lib/hooks'
+
+/**
+ * Button that restores every setting on this page to its default
+ */
+export function ResetSettings() {
+  const { setTheme } = useTheme()
+  const { resetSettings } = useSettings()
+
+  const handleReset = () => {
+    if (!window.confirm('Reset theme, mode, sources and refresh interval to their defaults? Mute rules are kept.')) return
+    resetSettings()
+    setTheme('system')
+  }
+
+  return (
+    <section className="flex items-center justify-between gap-4 rounded-lg border border-destructive/40 p-4">
+      <div>
+        <h2 className="font-medium">Reset to defaults</h2>
+        <p className="text-sm text-muted-foreground">Mute rules, saved items and saved feeds are not affected.</p>
+      </div>
+      <button
+        onClick={handleReset}
+        className="rounded-md bg-destructive/10 px-3 py-1.5 text-sm font-medium text-destructive hover:bg-destructive/20"
+      >
+        Reset
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { createRssFeed, isRssFeedId, validateFeedUrl } from '@/lib/api'
+import { useSettings } from '@/lib/hooks'
+import { sourceRegistry } from '@/lib/sources'
+import { clampItemLimit, MAX_ITEM_LIMIT } from '@/lib/services/settings-service'
+
+const inputClassName = "rounded-md border border-input bg-background px-2 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+/**
+ * Settings section for which sources are shown, their order and what each fetches
+ */
+export function SourcesSettings() {
+  const { sources, updateSourceSettings, moveSource, addRssFeed, removeRssFeed } = useSettings()
+  const [feedUrl, setFeedUrl] = useState('')
+  const [feedName, setFeedName] = useState('')
+  const [feedError, setFeedError] = useState<string | null>(null)
+
+  const handleAddFeed = (e: React.FormEvent) => {
+    e.preventDefault()
+    const error = validateFeedUrl(feedUrl)
+    if (error) {
+      setFeedError(error)
+      return
+    }
+    addRssFeed(createRssFeed(feedUrl, feedName))
+    setFeedUrl('')
+    setFeedName('')
+    setFeedError(null)
+  }
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Sources</h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Sources appear in the sidebar in this order. Add any RSS, Atom or JSON Feed, such as an
+          engineering blog or an arXiv listing, as a source of its own.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-border/40 rounded-lg border border-border/40 bg-card">
+        {sources.map((source, index) => {
+          const adapter = sourceRegistry.get(source.id)
+          return (
+            <li key={source.id} className="space-y-3 px-4 py-3">
+              <div className="flex items-center gap-3">
+                <input
+                  id={`source-${source.id}`}
+                  type="checkbox"
+                  checked={source.enabled}
+                  onChange={(e) => updateSourceSettings(source.id, { enabled: e.target.checked })}
+                />
+                <label htmlFor={`source-${source.id}`} className="flex-1 font-medium">
+                  {source.name}
+                </label>
+                {isRssFeedId(source.id) && (
+                  <button
+                    onClick={() => removeRssFeed(source.id)}
+                    className="rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-destructive"
+                  >
+                    Remove
+                  </button>
+                )}
+                <div className="flex items-center">
+                  <button
+                    onClick={() => moveSource(source.id, index - 1)}
+                    disabled={index === 0}
+                    className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-30"
+                    aria-label={`Move ${source.name} up`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => moveSource(source.id, index + 1)}
+                    disabled={index === sources.length - 1}
+                    className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-accent-foreground disabled:opacity-30"
+                    aria-label={`Move ${source.name} down`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+
+              <div className="ml-7 flex flex-wrap items-end gap-3 text-sm">
+                <label className="space-y-1">
+                  <span className="block text-xs text-muted-foreground">Items per page</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_ITEM_LIMIT}
+                    value={source.limit}
+                    onChange={(e) => updateSourceSettings(source.id, { limit: clampItemLimit(Number(e.target.value)) })}
+                    className={`${inputClassName} w-24`}
+                  />
+                </label>
+                {source.feedTypes && (
+                  <label className="space-y-1">
+                    <span className="block text-xs text-muted-foreground">Feed</span>
+                    <select
+                      value={source.feedType}
+                      onChange={(e) => updateSourceSettings(source.id, { feedType: e.target.value })}
+                      className={inputClassName}
+                    >
+                      {source.feedTypes.map((feedType) => (
+                        <option key={feedType.id} value={feedType.id}>
+                          {feedType.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {adapter?.options?.map((option) => (
+                  <label key={option.id} className="space-y-1">
+                    <span className="block text-xs text-muted-foreground">{option.name}</span>
+                    {option.choices ? (
+                      <select
+                        value={source.options[option.id] ?? option.defaultValue ?? ''}
+                        onChange={(e) => updateSourceSettings(source.id, { options: { [option.id]: e.target.value } })}
+                        className={inputClassName}
+                      >
+                        {option.choices.map((choice) => (
+                          <option key={choice.id} value={choice.id}>
+                            {choice.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        // Remount when the stored value changes, e.g. once settings are restored
+                        key={source.options[option.id] ?? ''}
+                        type="text"
+                        defaultValue={source.options[option.id] ?? ''}
+                        placeholder={option.placeholder}
+                        // Saved on blur so every keystroke doesn't refetch the feed
+                        onBlur={(e) => updateSourceSettings(source.id, { options: { [option.id]: e.target.value.trim() } })}
+                        className={inputClassName}
+                      />
+                    )}
+                  </label>
+                ))}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      <form onSubmit={handleAddFeed} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <input
+          type="url"
+          value={feedUrl}
+          onChange={(e) => {
+            setFeedUrl(e.target.value)
+            setFeedError(null)
+          }}
+          placeholder="https://example.com/feed.xml"
+          className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="Feed URL"
+          aria-invalid={!!feedError}
+        />
+        <input
+          type="text"
+          value={feedName}
+          onChange={(e) => setFeedName(e.target.value)}
+          placeholder="Name (optional)"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring sm:w-48"
+          aria-label="Feed name"
+        />
+        <button
+          type="submit"
+          className="rounded-md bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+        >
+          Add feed
+        </button>
+      </form>
+      {feedError && <p className="text-sm text-destructive">{feedError}</p>}
+    </section>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { NewsItem } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+import {
+  copyToClipboard,
+  formatCitation,
+  formatMarkdownLink,
+  formatSlackText,
+  getShareUrl
+} from '@/lib/utils'
+
+interface ShareMenuProps {
+  item: NewsItem
+}
+
+type CopyFormat = 'link' | 'markdown' | 'slack' | 'citation'
+
+const COPY_OPTIONS: Array<{ format: CopyFormat; label: string }> = [
+  { format: 'link', label: 'Copy link' },
+  { format: 'markdown', label: 'Copy as Markdown' },
+  { format: 'slack', label: 'Copy for Slack' },
+  { format: 'citation', label: 'Copy citation' },
+]
+
+/**
+ * Share button with a menu of native share and copy-to-clipboard formats
+ */
+export function ShareMenu({ item }: ShareMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [canShare, setCanShare] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setCanShare(typeof navigator !== 'undefined' && typeof navigator.share === 'function')
+  }, [])
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen])
+
+  // Clear the confirmation after a moment
+  useEffect(() => {
+    if (!status) return
+    const timeout = setTimeout(() => setStatus(null), 2000)
+    return () => clearTimeout(timeout)
+  }, [status])
+
+  const getText = (format: CopyFormat): string => {
+    const url = getShareUrl(item, window.location.origin)
+    const sourceName = sourceRegistry.getName(item.source)
+    switch (format) {
+      case 'markdown':
+        return formatMarkdownLink(item, url)
+      case 'slack':
+        return formatSlackText(item, url, sourceName)
+      case 'citation':
+        return formatCitation(item, url, sourceName)
+      default:
+        return url
+    }
+  }
+
+  const handleCopy = async (format: CopyFormat) => {
+    try {
+      await copyToClipboard(getText(format))
+      setStatus('Copied!')
+    } catch (err) {
+      console.error('Error copying to clipboard:', err);
+      setStatus('Copy failed')
+    }
+    setIsOpen(false)
+  }
+
+  const handleNativeShare = async () => {
+    setIsOpen(false)
+    try {
+      await navigator.share({
+        title: item.title,
+        text: `${item.title} (${sourceRegistry.getName(item.source)})`,
+        url: getShareUrl(item, window.location.origin),
+      })
+    } catch (err) {
+      // Dismissing the share sheet rejects with an AbortError
+      if (err instanceof Error && err.name === 'AbortError') return
+      console.error('Error sharing item:', err);
+      await handleCopy('link')
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="rounded-full p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+        aria-label="Share"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="h-4 w-4"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M7.217 10.907a2.25 2.25 0 100 2.186m0-2.186c.18.324.283.696.283 1.093s-.103.77-.283 1.093m0-2.186l9.566-5.314m-9.566 7.5l9.566 5.314m0 0a2.25 2.25 0 103.935 2.186 2.25 2.25 0 00-3.935-2.186zm0-12.814a2.25 2.25 0 103.933-2.185 2.25 2.25 0 00-3.933 2.185z"
+          />
+        </svg>
+      </button>
+      {status && (
+        <span
+          role="status"
+          className="absolute right-0 top-full z-20 mt-1 whitespace-nowrap rounded-md bg-foreground px-2 py-1 text-xs text-background"
+        >
+          {status}
+        </span>
+      )}
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full z-20 mt-1 w-44 overflow-hidden rounded-md border border-border/40 bg-card py-1 text-sm shadow-lg"
+        >
+          {canShare && (
+            <button
+              role="menuitem"
+              onClick={handleNativeShare}
+              className="block w-full px-3 py-1.5 text-left hover:bg-accent hover:text-accent-foreground"
+            >
+              Share via…
+            </button>
+          )}
+          {COPY_OPTIONS.map(({ format, label }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleCopy(format)}
+              className="block w-full px-3 py-1.5 text-left hover:bg-accent hover:text-accent-foreground"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
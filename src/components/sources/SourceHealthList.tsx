@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+import { formatRelativeTime, SourceHealth, SourceTestResult } from '@/lib/api'
+import { useSettings, useSourceHealth } from '@/lib/hooks'
+import { NewsSource } from '@/lib/services/news-service'
+
+const formatAgo = (ms: number) => formatRelativeTime(Math.floor(ms / 1000))
+
+function formatRateLimit({ requests, maxRequests, resetTime }: NonNullable<SourceHealth['rateLimit']>): string {
+  if (requests === 0) return `0 of ${maxRequests} requests used`
+  const minutes = Math.max(1, Math.ceil((resetTime - Date.now()) / 60000))
+  return `${requests} of ${maxRequests} requests used · resets in ${minutes} min`
+}
+
+function getStatus(source: NewsSource, health?: SourceHealth): { label: string; className: string } {
+  if (!source.enabled) return { label: 'Disabled', className: 'bg-muted text-muted-foreground' }
+  if (health?.error) return { label: 'Failing', className: 'bg-destructive/10 text-destructive' }
+  if (health?.lastFetchedAt) return { label: 'OK', className: 'bg-primary/10 text-primary' }
+  return { label: 'Not fetched yet', className: 'bg-secondary text-secondary-foreground' }
+}
+
+/**
+ * Every source with its enable toggle, order and server-side fetch status
+ */
+export function SourceHealthList() {
+  const { sources, updateSourceSettings, moveSource } = useSettings()
+  const { health, isLoading, error, testResults, testingIds, refresh, testSource } = useSourceHealth()
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const endDrag = () => {
+    setDraggingId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Drag sources to reorder them. Status is what the server saw on its last fetch.
+        </p>
+        <button
+          onClick={refresh}
+          className="rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      <ul className="divide-y divide-border/40 rounded-lg border border-border/40 bg-card">
+        {sources.map((source, index) => {
+          const sourceHealth = health[source.id]
+          const status = getStatus(source, sourceHealth)
+          const isTesting = testingIds.includes(source.id)
+          return (
+            <li
+              key={source.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                e.dataTransfer.setData('text/plain', source.id)
+                setDraggingId(source.id)
+              }}
+              onDragOver={(e) => {
+                if (!draggingId) return
+                e.preventDefault()
+                setDropIndex(index)
+              }}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (draggingId) moveSource(draggingId, index)
+                endDrag()
+              }}
+              onDragEnd={endDrag}
+              className={`space-y-2 px-4 py-3 ${draggingId === source.id ? 'opacity-50' : ''} ${
+                dropIndex === index && draggingId !== source.id ? 'bg-accent/50' : ''
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <button
+                  className="cursor-grab rounded p-1 text-muted-foreground hover:bg-accent active:cursor-grabbing"
+                  aria-label={`Reorder ${source.name}; use the arrow keys to move it`}
+                  title="Drag to reorder"
+                  onKeyDown={(e) => {
+                    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                      e.preventDefault()
+                      moveSource(source.id, index + (e.key === 'ArrowUp' ? -1 : 1))
+                    }
+                  }}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 9h16.5m-16.5 6.75h16.5" />
+                  </svg>
+                </button>
+                <input
+                  id={`source-health-${source.id}`}
+                  type="checkbox"
+                  checked={source.enabled}
+                  onChange={(e) => updateSourceSettings(source.id, { enabled: e.target.checked })}
+                />
+                <label htmlFor={`source-health-${source.id}`} className="flex-1 font-medium">
+                  {source.name}
+                </label>
+                <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${status.className}`}>
+                  {isLoading ? 'Checking...' : status.label}
+                </span>
+                <button
+                  onClick={() => testSource(source.id, source.feedType, source.options)}
+                  disabled={isTesting}
+                  className="rounded-md border border-input px-2.5 py-1 text-xs hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                  title="Fetch a few items live, skipping the cache"
+                >
+                  {isTesting ? 'Testing...' : 'Test fetch'}
+                </button>
+              </div>
+
+              {sourceHealth && (
+                <dl className="ml-14 grid gap-x-6 gap-y-1 text-xs sm:grid-cols-2">
+                  <div className="flex gap-1.5">
+                    <dt className="text-muted-foreground">Last successful fetch:</dt>
+                    <dd>{sourceHealth.lastFetchedAt ? formatAgo(sourceHealth.lastFetchedAt) : 'never'}</dd>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <dt className="text-muted-foreground">Cache:</dt>
+                    <dd>{sourceHealth.cacheUpdatedAt ? `fetched ${formatAgo(sourceHealth.cacheUpdatedAt)}` : 'empty'}</dd>
+                  </div>
+                  {sourceHealth.rateLimit && (
+                    <div className="flex gap-1.5">
+                      <dt className="text-muted-foreground">Rate limit:</dt>
+                      <dd>{formatRateLimit(sourceHealth.rateLimit)}</dd>
+                    </div>
+                  )}
+                  {sourceHealth.error && (
+                    <div className="flex gap-1.5 sm:col-span-2">
+                      <dt className="text-muted-foreground">Last error:</dt>
+                      <dd className="break-words text-destructive">{sourceHealth.error}</dd>
+                    </div>
+                  )}
+                </dl>
+              )}
+
+              {testResults[source.id] && <TestResult result={testResults[source.id]} />}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+function TestResult({ result }: { result: SourceTestResult }) {
+  const messages: Record<SourceTestResult['status'], string> = {
+    ok: `Test fetch returned ${result.itemCount} item${result.itemCount === 1 ? '' : 's'} in ${result.durationMs} ms`,
+    empty: `Test fetch worked but returned no items in ${result.durationMs} ms; check the source's options`,
+    failed: `Test fetch failed after ${result.durationMs} ms: ${result.error}`,
+  }
+  const colors: Record<SourceTestResult['status'], string> = {
+    ok: 'text-muted-foreground',
+    empty: 'text-amber-600 dark:text-amber-500',
+    failed: 'text-destructive',
+  }
+  return <p className={`ml-14 text-xs ${colors[result.status]}`}>{messages[result.status]}</p>
+}
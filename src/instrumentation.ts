@@ -0,0 +1,30 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Persist the shared API cache to disk so server restarts don't re-fetch everything
+    const { setCacheStore } = await import('./lib/cache')
+    const { FileCacheStore } = await import('./lib/cache/file-store')
+    setCacheStore(new FileCacheStore(process.env.HACKERHOME_CACHE_DIR || undefined))
+
+    // Feed URLs come from readers, so their hosts must resolve to public addresses
+    const { setFeedHostCheck } = await import('./lib/api')
+    const { isPublicHost } = await import('./lib/api/host-check')
+    setFeedHostCheck(isPublicHost)
+
+    // Keep star history on disk, outside the evictable cache, and record it
+    // hourly so trending gains don't depend on someone reading the feed. That
+    // costs six searches an hour, which the unauthenticated limit can't spare.
+    const os = await import('os')
+    const path = await import('path')
+    const { githubClient } = await import('./lib/api')
+    const { setStarHistoryStore } = await import('./lib/api/github-star-history')
+    setStarHistoryStore(new FileCacheStore(
+      path.join(process.env.HACKERHOME_CACHE_DIR || os.tmpdir(), 'hackerhome-star-history')
+    ))
+    if (process.env.GITHUB_API_KEY) {
+      setInterval(() => githubClient.recordTrendingSnapshots(), 60 * 60 * 1000).unref()
+    }
+  }
+}
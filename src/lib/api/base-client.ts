@@ -1,3 +1,12 @@
+import {
+  getCacheStore,
+  getCacheTtl,
+  isFresh,
+  CacheEntry,
+  CacheStats,
+  STALE_WHILE_REVALIDATE
+} from '../cache';
+
 /**
  * Custom error class for API errors
  */
@@ -30,13 +39,43 @@ interface RateLimitConfig {
 interface RateLimitState {
   requests: number;
   resetTime: number;
-  queue: Array<() => Promise<any>>;
+  queue: Array<() => Promise<void>>;
   processing: boolean;
 }
 
-interface CacheEntry {
-  data: any;
-  timestamp: number;
+/**
+ * How a response body is read: parsed as JSON, or returned as text (e.g. XML feeds)
+ */
+export type ResponseFormat = 'json' | 'text';
+
+/**
+ * Options of a single request
+ */
+export interface RequestOptions {
+  // Skip reading the cache, e.g. when testing a source; the response is still cached
+  skipCache?: boolean;
+}
+
+/**
+ * Body of a GraphQL response; errors may come with partial data or none
+ */
+export interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: Array<{ message: string; path?: Array<string | number> }>;
+}
+
+// Redirects followed by clients that check every URL they fetch
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Snapshot of a client's rate limit window, for display
+ */
+export interface RateLimitStatus {
+  requests: number;
+  maxRequests: number;
+  resetTime: number;
+  queued: number;
 }
 
 /**
@@ -46,10 +85,17 @@ export class BaseApiClient {
   protected baseUrl: string;
   protected defaultHeaders: Record<string, string>;
   protected source: string;
-  protected cacheDuration: number = 5 * 60 * 1000; // 5 minutes in milliseconds
+  protected cacheDuration: number;
   protected rateLimitConfig: RateLimitConfig;
   private rateLimitState: RateLimitState;
-  private cache = new Map<string, CacheEntry>();
+  // When the newest response served from or written to the cache was fetched
+  private cacheUpdatedAt: number | null = null;
+
+  /**
+   * Refuse a URL by throwing. Clients that fetch user-supplied URLs define
+   * this; their redirects are then followed by hand so every hop is checked.
+   */
+  protected checkUrl?(url: string): Promise<void>;
 
   constructor(
     baseUrl: string, 
@@ -59,6 +105,7 @@ export class BaseApiClient {
   ) {
     this.baseUrl = baseUrl;
     this.source = source;
+    this.cacheDuration = getCacheTtl(source);
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       ...defaultHeaders,
@@ -75,36 +122,110 @@ export class BaseApiClient {
       queue: [],
       processing: false
     };
-
-    // Set up periodic cache cleanup
-    try {
-      if (typeof window !== 'undefined' && typeof window.setInterval === 'function') {
-        setInterval(() => this.clearExpiredCache(), this.cacheDuration);
-      }
-    } catch (error) {
-      console.error(`[${this.source}] Failed to set up cache cleanup:`, error);
-    }
   }
 
   /**
-   * Make a GET request to the specified endpoint
+   * Make a GET request to the specified endpoint.
+   * Fresh cached responses are returned as they are; expired ones are
+   * revalidated with a conditional request before being returned.
    */
   protected async get<T>( 
     endpoint: string,
     params: Record<string, string> = {},
     headers: Record<string, string> = {},
     useCache: boolean = true,
-    retries: number = 3
+    retries: number = 3,
+    format: ResponseFormat = 'json',
+    request: RequestOptions = {}
   ): Promise<T> {
-    const url = this.buildUrl(endpoint, params);
-    const cacheKey = url.toString();
+    const { data } = await this.send<T>(this.buildUrl(endpoint, params), undefined, headers, useCache, retries, format, request);
+    return data;
+  }
+
+  /**
+   * Make a GET request like get(), also returning when the data was fetched
+   * from upstream; a cached response reports when it was originally fetched
+   */
+  protected async getFetched<T>(
+    endpoint: string,
+    params: Record<string, string> = {},
+    headers: Record<string, string> = {},
+    request: RequestOptions = {}
+  ): Promise<{ data: T; fetchedAt: number }> {
+    return this.send<T>(this.buildUrl(endpoint, params), undefined, headers, true, 3, 'json', request);
+  }
+
+  /**
+   * Make a POST request with a JSON body. Only cached when asked to, for
+   * endpoints that read data over POST such as GraphQL; entries are keyed on
+   * the URL and body and revalidated the same way as GET responses.
+   */
+  protected async post<T>(
+    endpoint: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+    useCache: boolean = false,
+    retries: number = 3,
+    format: ResponseFormat = 'json',
+    request: RequestOptions = {}
+  ): Promise<T> {
+    const { data } = await this.send<T>(this.buildUrl(endpoint, {}), JSON.stringify(body), headers, useCache, retries, format, request);
+    return data;
+  }
+
+  /**
+   * Run a GraphQL query, returning its data. Responses with errors are
+   * dropped from the cache and thrown as an ApiError.
+   */
+  protected async graphql<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    endpoint: string = '',
+    headers: Record<string, string> = {},
+    useCache: boolean = true,
+    request: RequestOptions = {}
+  ): Promise<T> {
+    const body = { query, variables };
+    const response = await this.post<GraphQLResponse<T>>(endpoint, body, headers, useCache, 3, 'json', request);
+
+    if (response.errors?.length || !response.data) {
+      if (useCache) {
+        const cacheKey = this.getCacheKey(this.buildUrl(endpoint, {}), JSON.stringify(body));
+        await getCacheStore().delete(cacheKey).catch(error => {
+          console.error(`[${this.source}] Cache delete error:`, error);
+        });
+      }
+      const messages = response.errors?.map(error => error.message).join('; ');
+      throw new ApiError(`GraphQL error: ${messages || 'No data returned'}`, 0, this.source, false);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Serve a request from the cache while it is fresh, otherwise fetch it.
+   * Expired entries are only used for their validators, so callers always get
+   * fresh data; serving stale feeds is left to the aggregated news cache.
+   */
+  private async send<T>(
+    url: string,
+    body: string | undefined,
+    headers: Record<string, string>,
+    useCache: boolean,
+    retries: number,
+    format: ResponseFormat,
+    request: RequestOptions
+  ): Promise<{ data: T; fetchedAt: number }> {
+    const cacheKey = this.getCacheKey(url, body);
+    let cached: CacheEntry<T> | null = null;
     
     // Check cache if enabled
-    if (useCache) {
+    if (useCache && !request.skipCache) {
       try {
-        const cachedData = this.getFromCache<T>(cacheKey);
-        if (cachedData) {
-          return cachedData;
+        cached = await this.getFromCache<T>(cacheKey);
+        if (cached && isFresh(cached)) {
+          this.cacheUpdatedAt = Math.max(this.cacheUpdatedAt ?? 0, cached.timestamp);
+          return { data: cached.data, fetchedAt: cached.timestamp };
         }
       } catch (error) {
         console.error(`[${this.source}] Cache access error:`, error);
@@ -112,6 +233,23 @@ export class BaseApiClient {
       }
     }
     
+    const data = await this.request<T>(url, body, cacheKey, headers, useCache, retries, cached, format);
+    return { data, fetchedAt: Date.now() };
+  }
+
+  /**
+   * Fetch a URL, sending conditional headers when a cached entry is available
+   */
+  private async request<T>(
+    url: string,
+    body: string | undefined,
+    cacheKey: string,
+    headers: Record<string, string>,
+    useCache: boolean,
+    retries: number,
+    cached: CacheEntry<T> | null,
+    format: ResponseFormat
+  ): Promise<T> {
     // Apply rate limiting
     try {
       await this.checkRateLimit();
@@ -120,16 +258,30 @@ export class BaseApiClient {
       // Continue without rate limiting if there's an error
     }
     
+    const conditionalHeaders: Record<string, string> = {};
+    if (cached?.etag) conditionalHeaders['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+    
     try {
-      const response = await fetch(url, {
-        method: 'GET',
+      const response = await this.fetchChecked(url, {
+        method: body === undefined ? 'GET' : 'POST',
+        body,
         headers: {
           ...this.defaultHeaders,
           ...headers,
+          ...conditionalHeaders,
         },
-        next: { revalidate: this.cacheDuration / 1000 }, // Convert to seconds for Next.js
+        // Caching and revalidation are handled by the shared cache store
+        cache: 'no-store',
       });
       
+      if (response.status === 304 && cached) {
+        if (useCache) {
+          await this.saveToCache(cacheKey, cached.data, cached);
+        }
+        return cached.data;
+      }
+      
       if (!response.ok) {
         const retryable = response.status >= 500 || response.status === 429;
         throw new ApiError(
@@ -140,12 +292,15 @@ export class BaseApiClient {
         );
       }
       
-      const data = await response.json() as T;
+      const data = (format === 'text' ? await response.text() : await response.json()) as T;
       
       // Cache the response if caching is enabled
       if (useCache) {
         try {
-          this.saveToCache(cacheKey, data);
+          await this.saveToCache(cacheKey, data, {
+            etag: response.headers.get('ETag') ?? undefined,
+            lastModified: response.headers.get('Last-Modified') ?? undefined,
+          });
         } catch (error) {
           console.error(`[${this.source}] Failed to cache response:`, error);
           // Continue without caching if there's an error
@@ -158,7 +313,7 @@ export class BaseApiClient {
         if (error.retryable && retries > 0) {
           console.warn(`[${this.source}] Retrying request to ${url}, ${retries} retries left`);
           await new Promise(resolve => setTimeout(resolve, this.rateLimitConfig.retryAfterMs));
-          return this.get<T>(endpoint, params, headers, useCache, retries - 1);
+          return this.request<T>(url, body, cacheKey, headers, useCache, retries - 1, cached, format);
         }
         throw error;
       }
@@ -172,6 +327,63 @@ export class BaseApiClient {
     }
   }
 
+  /**
+   * Fetch a URL, checking it and every redirect hop when the client checks URLs
+   */
+  private async fetchChecked(url: string, init: RequestInit): Promise<Response> {
+    if (!this.checkUrl) return fetch(url, init);
+
+    let current = url;
+    let currentInit = init;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await this.checkUrl(current);
+      const response = await fetch(current, { ...currentInit, redirect: 'manual' });
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) return response;
+
+      current = new URL(location, current).href;
+      // A 303 turns any request into a GET, as browsers do
+      if (response.status === 303) currentInit = { ...currentInit, method: 'GET', body: undefined };
+    }
+    throw new ApiError(`Too many redirects fetching ${url}`, 0, this.source, false);
+  }
+
+  /**
+   * Get cache hit/miss statistics for this source
+   */
+  getCacheStats(): CacheStats {
+    return getCacheStore().getStats(this.source);
+  }
+
+  /**
+   * Get the current rate limit window. A window that has already passed
+   * reports no requests, since the next request starts a new one.
+   */
+  getRateLimitState(): RateLimitStatus {
+    const { requests, resetTime, queue } = this.rateLimitState;
+    const expired = Date.now() > resetTime;
+    return {
+      requests: expired ? 0 : requests,
+      maxRequests: this.rateLimitConfig.maxRequests,
+      resetTime,
+      queued: queue.length,
+    };
+  }
+
+  /**
+   * Get when the newest cached response was fetched, or null if none has been seen
+   */
+  getCacheUpdatedAt(): number | null {
+    return this.cacheUpdatedAt;
+  }
+
+  /**
+   * Get the cache key of a request; POST bodies are part of the key
+   */
+  private getCacheKey(url: string, body?: string): string {
+    return body === undefined ? `${this.source}:${url}` : `${this.source}:POST ${url} ${body}`;
+  }
+
   /**
    * Build a URL with query parameters
    */
@@ -188,16 +400,11 @@ export class BaseApiClient {
   }
   
   /**
-   * Get data from cache
+   * Get data from the shared cache store
    */
-  private getFromCache<T>(key: string): T | null {
+  private async getFromCache<T>(key: string): Promise<CacheEntry<T> | null> {
     try {
-      const cached = this.cache.get(key);
-      const now = Date.now();
-      
-      if (cached && now - cached.timestamp < this.cacheDuration) {
-        return cached.data as T;
-      }
+      return await getCacheStore().get<T>(key);
     } catch (error) {
       console.error(`[${this.source}] Cache get error:`, error);
     }
@@ -206,36 +413,30 @@ export class BaseApiClient {
   }
   
   /**
-   * Save data to cache
+   * Save data to the shared cache store along with its validators
    */
-  private saveToCache<T>(key: string, data: T): void {
+  private async saveToCache<T>(
+    key: string,
+    data: T,
+    validators: Pick<CacheEntry, 'etag' | 'lastModified'> = {}
+  ): Promise<void> {
     try {
-      this.cache.set(key, {
+      const now = Date.now();
+      this.cacheUpdatedAt = now;
+      await getCacheStore().set(key, {
         data,
-        timestamp: Date.now()
+        timestamp: now,
+        expiresAt: now + this.cacheDuration,
+        // Kept past expiry for its validators, never served stale
+        staleUntil: now + this.cacheDuration + STALE_WHILE_REVALIDATE,
+        etag: validators.etag,
+        lastModified: validators.lastModified
       });
     } catch (error) {
       console.error(`[${this.source}] Cache save error:`, error);
     }
   }
   
-  /**
-   * Clear expired cache entries
-   */
-  private clearExpiredCache(): void {
-    try {
-      const now = Date.now();
-      
-      for (const [key, value] of this.cache.entries()) {
-        if (now - value.timestamp > this.cacheDuration) {
-          this.cache.delete(key);
-        }
-      }
-    } catch (error) {
-      console.error(`[${this.source}] Cache cleanup error:`, error);
-    }
-  }
-  
   /**
    * Check rate limit and wait if necessary
    */
@@ -1,4 +1,6 @@
-import { BaseApiClient, ApiError } from './base-client';
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { CommentThread, ItemContent, NewsComment } from './index';
+import { sanitizeHtml } from '../utils';
 
 export interface DevToArticle {
   id: number;
@@ -21,6 +23,9 @@ export interface DevToArticle {
   published: boolean;
   published_timestamp: string;
   reading_time_minutes: number;
+  // Only included when fetching a single article
+  body_html?: string;
+  body_markdown?: string;
   user: {
     name: string;
     username: string;
@@ -31,11 +36,25 @@ export interface DevToArticle {
   };
 }
 
+export interface DevToComment {
+  type_of: 'comment';
+  id_code: string;
+  created_at: string;
+  body_html: string;
+  user: {
+    name: string;
+    username: string;
+    profile_image_90: string;
+  };
+  children: DevToComment[];
+}
+
 export interface NormalizedDevToArticle {
   id: number;
   title: string;
   description: string;
   url: string;
+  canonicalUrl: string | null; // Set when the article was cross-posted from elsewhere
   author: string;
   authorImage: string;
   timestamp: number;
@@ -64,11 +83,16 @@ export class DevToClient extends BaseApiClient {
   /**
    * Get the latest articles from DEV.to
    */
-  async getLatestArticles(limit: number = 30): Promise<NormalizedDevToArticle[]> {
+  async getLatestArticles(
+    limit: number = 30,
+    page: number = 1,
+    request: RequestOptions = {}
+  ): Promise<NormalizedDevToArticle[]> {
     try {
       const articles = await this.get<DevToArticle[]>('articles', {
         per_page: limit.toString(),
-      });
+        page: page.toString(),
+      }, {}, true, 3, 'json', request);
       
       return articles.map(this.normalizeArticle);
     } catch (error) {
@@ -100,6 +124,30 @@ export class DevToClient extends BaseApiClient {
     }
   }
 
+  /**
+   * Get the latest articles of a user or organization from DEV.to
+   */
+  async getArticlesByUser(
+    username: string,
+    limit: number = 30,
+    request: RequestOptions = {}
+  ): Promise<NormalizedDevToArticle[]> {
+    try {
+      const articles = await this.get<DevToArticle[]>('articles', {
+        username,
+        per_page: limit.toString(),
+      }, {}, true, 3, 'json', request);
+      
+      return articles.map(this.normalizeArticle);
+    } catch (error) {
+      console.error(`Error fetching DEV.to articles by ${username}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch articles by user: ${error}`, 0, this.source, false);
+    }
+  }
+
   /**
    * Get a specific article by ID
    */
@@ -116,6 +164,72 @@ export class DevToClient extends BaseApiClient {
     }
   }
 
+  /**
+   * Get the full body of an article
+   */
+  async getArticleContent(id: number): Promise<ItemContent | null> {
+    try {
+      const article = await this.get<DevToArticle>(`articles/${id}`);
+      if (article.body_html) {
+        return { format: 'html', body: sanitizeHtml(article.body_html) };
+      }
+      return article.body_markdown ? { format: 'text', body: article.body_markdown } : null;
+    } catch (error) {
+      console.error(`Error fetching DEV.to article body with ID ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch article body: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the full comment tree of an article
+   */
+  async getCommentThread(articleId: number): Promise<CommentThread> {
+    try {
+      const roots = await this.get<DevToComment[]>('comments', {
+        a_id: articleId.toString(),
+      });
+      
+      // Flatten the tree; DEV.to returns every level in one response
+      const comments: NewsComment[] = [];
+      const visit = (comment: DevToComment, parentId?: string) => {
+        comments.push(this.normalizeComment(comment, parentId));
+        comment.children.forEach(child => visit(child, comment.id_code));
+      };
+      roots.forEach(root => visit(root));
+      
+      return {
+        itemId: String(articleId),
+        source: 'devto',
+        rootIds: roots.map(root => root.id_code),
+        comments,
+      };
+    } catch (error) {
+      console.error(`Error fetching DEV.to comments for article ${articleId}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Normalize a DEV.to comment to a common format
+   */
+  private normalizeComment(comment: DevToComment, parentId?: string): NewsComment {
+    return {
+      id: comment.id_code,
+      parentId,
+      author: comment.user.name,
+      authorImage: comment.user.profile_image_90,
+      text: sanitizeHtml(comment.body_html),
+      timestamp: new Date(comment.created_at).getTime() / 1000,
+      replyIds: comment.children.map(child => child.id_code),
+    };
+  }
+
   /**
    * Normalize a DEV.to article to a common format
    */
@@ -125,6 +239,9 @@ export class DevToClient extends BaseApiClient {
       title: article.title,
       description: article.description,
       url: article.url,
+      canonicalUrl: article.canonical_url && article.canonical_url !== article.url
+        ? article.canonical_url
+        : null,
       author: article.user.name,
       authorImage: article.user.profile_image,
       timestamp: new Date(article.published_at).getTime() / 1000,
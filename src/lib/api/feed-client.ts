@@ -0,0 +1,223 @@
+import { BaseApiClient, ApiError } from './base-client';
+import type {
+  CommentThread,
+  FeedCursor,
+  ItemDetail,
+  NewsComment,
+  NewsItem,
+  SourceError,
+  SourceHealth,
+  SourceTestResult
+} from './index';
+
+export interface FeedResponse {
+  items: NewsItem[];
+  errors: SourceError[];
+  cursor: FeedCursor | null;
+  // The server is rebuilding this page; fetching again shortly gets the fresh one
+  stale?: boolean;
+}
+
+export interface SourceFeedResponse {
+  source: {
+    id: string;
+    name: string;
+  };
+  items: NewsItem[];
+}
+
+export interface FeedQuery {
+  sources?: string[];
+  search?: string;
+  tags?: string[];
+  feedTypes?: Record<string, string>;
+  limits?: Record<string, number>;
+  sourceOptions?: Record<string, Record<string, string>>;
+  sort?: string;
+  cursor?: FeedCursor;
+}
+
+// Serialize a per-source map as "source:value" pairs
+function formatSourcePairs(values: Record<string, string | number>): string {
+  return Object.entries(values).map(([source, value]) => `${source}:${value}`).join(',');
+}
+
+// Serialize per-source options as "source.option:value" pairs; values are
+// encoded since they may hold lists, e.g. of subreddits
+function formatSourceOptions(values: Record<string, Record<string, string>>): string {
+  return Object.entries(values)
+    .flatMap(([source, options]) => Object.entries(options).map(([id, value]) => `${source}.${id}:${encodeURIComponent(value)}`))
+    .join(',');
+}
+
+/**
+ * Client for the app's own /api route handlers, which proxy and cache
+ * the upstream sources on the server
+ */
+export class FeedApiClient extends BaseApiClient {
+  constructor() {
+    super(
+      typeof window !== 'undefined' ? `${window.location.origin}/api/` : 'http://localhost:3000/api/',
+      'feed',
+      {},
+      { maxRequests: 120, windowMs: 60 * 1000 }
+    );
+  }
+
+  /**
+   * Get the aggregated feed, or the page after the one a cursor came from
+   */
+  async getFeed(query: FeedQuery = {}): Promise<FeedResponse> {
+    const params: Record<string, string> = {};
+    if (query.sources) params.sources = query.sources.join(',');
+    if (query.search) params.search = query.search;
+    if (query.tags && query.tags.length > 0) params.tags = query.tags.join(',');
+    if (query.feedTypes) {
+      const feeds = formatSourcePairs(query.feedTypes);
+      if (feeds) params.feeds = feeds;
+    }
+    if (query.limits) {
+      const limits = formatSourcePairs(query.limits);
+      if (limits) params.limits = limits;
+    }
+    if (query.sourceOptions) {
+      const options = formatSourceOptions(query.sourceOptions);
+      if (options) params.options = options;
+    }
+    if (query.sort) params.sort = query.sort;
+    if (query.cursor) params.cursor = formatSourcePairs(query.cursor);
+
+    try {
+      // The server already caches upstream responses, so always ask it
+      return await this.get<FeedResponse>('feed', params, {}, false);
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch feed: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the items from a single source
+   */
+  async getSourceItems(id: string, feedType?: string): Promise<SourceFeedResponse> {
+    const params: Record<string, string> = feedType ? { feed: feedType } : {};
+
+    try {
+      return await this.get<SourceFeedResponse>(`sources/${encodeURIComponent(id)}`, params, {}, false);
+    } catch (error) {
+      console.error(`Error fetching source ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch source: ${error}`, 0, id, false);
+    }
+  }
+
+  /**
+   * Get the fetch status, rate limit and cache age of the given sources
+   */
+  async getSourcesHealth(ids: string[]): Promise<SourceHealth[]> {
+    try {
+      return await this.get<SourceHealth[]>('sources', { ids: ids.join(',') }, {}, false);
+    } catch (error) {
+      console.error('Error fetching source health:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch source health: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Fetch a few items live from a source to check that it works
+   */
+  async testSource(id: string, feedType?: string, options?: Record<string, string>): Promise<SourceTestResult> {
+    const params: Record<string, string> = feedType ? { feed: feedType } : {};
+    const formatted = options ? formatSourceOptions({ [id]: options }) : '';
+    if (formatted) params.options = formatted;
+
+    try {
+      return await this.get<SourceTestResult>(`sources/${encodeURIComponent(id)}/test`, params, {}, false, 0);
+    } catch (error) {
+      console.error(`Error testing source ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to test source: ${error}`, 0, id, false);
+    }
+  }
+
+  /**
+   * Get a single normalized item
+   */
+  async getItem(source: string, id: string | number): Promise<NewsItem> {
+    try {
+      return await this.get<NewsItem>(
+        `items/${encodeURIComponent(source)}/${encodeURIComponent(String(id))}`
+      );
+    } catch (error) {
+      console.error(`Error fetching item ${source}/${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch item: ${error}`, 0, source, false);
+    }
+  }
+
+  /**
+   * Get an item with its full content and related items
+   */
+  async getItemDetail(source: string, id: string | number): Promise<ItemDetail> {
+    try {
+      return await this.get<ItemDetail>(
+        `items/${encodeURIComponent(source)}/${encodeURIComponent(String(id))}/detail`
+      );
+    } catch (error) {
+      console.error(`Error fetching detail for ${source}/${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch item detail: ${error}`, 0, source, false);
+    }
+  }
+
+  /**
+   * Get the comment thread of an item
+   */
+  async getCommentThread(source: string, id: string | number): Promise<CommentThread> {
+    try {
+      return await this.get<CommentThread>(
+        `items/${encodeURIComponent(source)}/${encodeURIComponent(String(id))}/comments`
+      );
+    } catch (error) {
+      console.error(`Error fetching comments for ${source}/${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, source, false);
+    }
+  }
+
+  /**
+   * Get comments by ID
+   */
+  async getComments(source: string, ids: string[]): Promise<NewsComment[]> {
+    try {
+      return await this.get<NewsComment[]>(`comments/${encodeURIComponent(source)}`, {
+        ids: ids.join(','),
+      });
+    } catch (error) {
+      console.error(`Error fetching ${source} comments:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, source, false);
+    }
+  }
+}
+
+// Export a singleton instance
+export const feedApiClient = new FeedApiClient();
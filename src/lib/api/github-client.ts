@@ -1,4 +1,7 @@
-import { BaseApiClient, ApiError } from './base-client';
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { ItemContent } from './index';
+import { getStarsGained, recordStarSnapshots } from './github-star-history';
+import { stripHtml } from '../utils';
 
 export interface GitHubRepository {
   id: number;
@@ -30,6 +33,46 @@ export interface GitHubRepository {
   };
 }
 
+export interface GitHubUser {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+export interface GitHubRelease {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  created_at: string;
+  published_at: string | null;
+  author: GitHubUser;
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  html_url: string;
+  body: string | null;
+  state: string;
+  comments: number;
+  created_at: string;
+  labels: Array<{ name: string }>;
+  user: GitHubUser;
+  repository_url: string; // API URL of the issue's repository
+}
+
+export interface GitHubReadme {
+  name: string;
+  path: string;
+  content: string;
+  encoding: 'base64' | string;
+}
+
 export interface NormalizedGitHubRepository {
   id: number;
   name: string;
@@ -44,9 +87,80 @@ export interface NormalizedGitHubRepository {
   forks: number;
   language: string | null;
   topics: string[];
+  starsGained?: number; // Only set on trending repositories
+  kind: 'repository';
   source: 'github';
 }
 
+export interface NormalizedGitHubRelease {
+  id: string;
+  name: string;
+  tagName: string;
+  repository: string; // Full name, e.g. vercel/next.js
+  url: string;
+  description: string;
+  body: string;
+  author: string;
+  authorImage: string;
+  authorUrl: string;
+  timestamp: number;
+  prerelease: boolean;
+  kind: 'release';
+  source: 'github';
+}
+
+export interface NormalizedGitHubIssue {
+  id: string;
+  title: string;
+  number: number;
+  repository: string;
+  url: string;
+  description: string;
+  body: string;
+  author: string;
+  authorImage: string;
+  authorUrl: string;
+  timestamp: number;
+  commentCount: number;
+  labels: string[];
+  kind: 'issue';
+  source: 'github';
+}
+
+export type TrendingWindow = 'daily' | 'weekly' | 'monthly';
+
+const DESCRIPTION_LENGTH = 200;
+
+// Repositories this popular count as established projects when looking for trending ones
+const ESTABLISHED_STARS = 500;
+
+// Watched repositories are fetched one request each, so keep the list short
+export const MAX_WATCHED_REPOS = 20;
+
+const REPO_NAME = /^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/;
+
+/**
+ * Read a list of repositories like "vercel/next.js, rust-lang/rust" into valid full names
+ */
+export function parseRepoNames(value?: string): string[] {
+  const names = (value ?? '')
+    .split(/[\s,]+/)
+    .map(name => name.replace(/^https:\/\/github\.com\//i, '').replace(/\/$/, ''))
+    .filter(name => REPO_NAME.test(name));
+  return Array.from(new Set(names)).slice(0, MAX_WATCHED_REPOS);
+}
+
+/**
+ * Shorten markdown to a plain one-paragraph summary
+ */
+function summarize(markdown: string | null): string {
+  const text = stripHtml(markdown ?? '')
+    .replace(/[#>*`~]|\[([^\]]*)\]\([^)]*\)/g, (match, label) => label ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
 /**
  * Client for the GitHub API
  * Documentation: https://docs.github.com/en/rest
@@ -71,36 +185,195 @@ export class GitHubClient extends BaseApiClient {
   }
 
   /**
-   * Get trending repositories from GitHub
+   * Get trending repositories from GitHub, ranked by the stars they gained in
+   * the window. GitHub has no trending API, so candidates come from two
+   * searches: repositories created in the window, and the most starred
+   * established ones pushed to in it, a set that stays stable from one fetch
+   * to the next. Their stargazer counts are recorded whenever a search is
+   * fetched, here and by recordTrendingSnapshots, and the gain is measured
+   * against those snapshots. Established repositories without enough history
+   * yet follow the measured ones, by total stars. Trending repositories are
+   * dated by their last push, since established ones were created long
+   * before the window.
    */
   async getTrendingRepositories(
     language?: string,
-    since: 'daily' | 'weekly' | 'monthly' = 'daily',
-    limit: number = 30
+    since: TrendingWindow = 'daily',
+    limit: number = 30,
+    page: number = 1,
+    request: RequestOptions = {}
   ): Promise<NormalizedGitHubRepository[]> {
     try {
-      // GitHub doesn't have a direct trending API, so we use the search API
-      // with sort by stars and filter by creation date
       const dateFilter = this.getDateFilterForTrending(since);
+      const languageFilter = language ? ` language:${language}` : '';
       
+      const search = async (q: string, sort: string) => {
+        const { data, fetchedAt } = await this.getFetched<{
+          items: GitHubRepository[];
+        }>('search/repositories', { q, sort, order: 'desc', per_page: '100' }, {}, request);
+        return data.items.map(repo => ({ repo, fetchedAt: Math.floor(fetchedAt / 1000) }));
+      };
+      
+      const [created, established] = await Promise.all([
+        search(`created:>${dateFilter}${languageFilter}`, 'stars'),
+        search(`pushed:>${dateFilter} stars:>=${ESTABLISHED_STARS}${languageFilter}`, 'stars'),
+      ]);
+      
+      // A repository found by both searches keeps its most recently fetched count
+      const candidates = new Map<number, { repo: GitHubRepository; fetchedAt: number }>();
+      [...created, ...established].forEach(candidate => {
+        const known = candidates.get(candidate.repo.id);
+        if (!known || candidate.fetchedAt > known.fetchedAt) candidates.set(candidate.repo.id, candidate);
+      });
+      const history = await recordStarSnapshots(
+        Array.from(candidates.values()).map(({ repo, fetchedAt }) => ({ id: repo.id, stars: repo.stargazers_count, fetchedAt }))
+      );
+      
+      const windowStart = new Date(dateFilter).getTime() / 1000;
+      const ranked = Array.from(candidates.values())
+        .map(({ repo, fetchedAt }) => ({
+          ...this.normalizeRepository(repo),
+          timestamp: new Date(repo.pushed_at).getTime() / 1000,
+          starsGained: getStarsGained(
+            history[repo.id] ?? [],
+            repo.stargazers_count,
+            new Date(repo.created_at).getTime() / 1000,
+            windowStart,
+            fetchedAt
+          ) ?? undefined,
+        }));
+      const measured = ranked
+        .filter(repo => repo.starsGained !== undefined)
+        .sort((a, b) => (b.starsGained ?? 0) - (a.starsGained ?? 0) || b.stars - a.stars);
+      const unmeasured = ranked
+        .filter(repo => repo.starsGained === undefined)
+        .sort((a, b) => b.stars - a.stars);
+      
+      return [...measured, ...unmeasured].slice((page - 1) * limit, page * limit);
+    } catch (error) {
+      console.error('Error fetching GitHub trending repositories:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch trending repositories: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Record star snapshots for every trending window, so gains can be measured
+   * even when nobody reads the trending feed. Run periodically on the server.
+   */
+  async recordTrendingSnapshots(): Promise<void> {
+    const windows: TrendingWindow[] = ['daily', 'weekly', 'monthly'];
+    for (const since of windows) {
+      try {
+        await this.getTrendingRepositories(undefined, since);
+      } catch (error) {
+        console.error(`[github] Failed to record ${since} star snapshots:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the latest releases of a set of repositories, newest first. Repositories
+   * that can't be read are skipped, unless none of them can.
+   */
+  async getReleases(
+    repos: string[],
+    limit: number = 30,
+    offset: number = 0,
+    request: RequestOptions = {}
+  ): Promise<NormalizedGitHubRelease[]> {
+    try {
+      const results = await Promise.allSettled(
+        repos.slice(0, MAX_WATCHED_REPOS).map(async fullName => {
+          const releases = await this.get<GitHubRelease[]>(`repos/${fullName}/releases`, { per_page: '10' }, {}, true, 3, 'json', request);
+          return releases
+            .filter(release => !release.draft)
+            .map(release => this.normalizeRelease(release, fullName));
+        })
+      );
+      
+      const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      failed.forEach(result => console.error('Error fetching GitHub releases:', result.reason));
+      if (failed.length > 0 && failed.length === results.length) {
+        throw failed[0].reason;
+      }
+      
+      return results
+        .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(offset, offset + limit);
+    } catch (error) {
+      console.error('Error fetching GitHub releases:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch releases: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a specific release of a repository
+   */
+  async getRelease(owner: string, repo: string, id: number): Promise<NormalizedGitHubRelease> {
+    try {
+      const release = await this.get<GitHubRelease>(`repos/${owner}/${repo}/releases/${id}`);
+      return this.normalizeRelease(release, `${owner}/${repo}`);
+    } catch (error) {
+      console.error(`Error fetching GitHub release ${id} of ${owner}/${repo}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch release: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get open, unassigned "good first issue" issues, newest first
+   */
+  async getGoodFirstIssues(
+    language?: string,
+    limit: number = 30,
+    page: number = 1,
+    request: RequestOptions = {}
+  ): Promise<NormalizedGitHubIssue[]> {
+    try {
       const params: Record<string, string> = {
-        q: `created:>${dateFilter}${language ? ` language:${language}` : ''}`,
-        sort: 'stars',
+        q: `label:"good first issue" is:issue is:open no:assignee archived:false${language ? ` language:${language}` : ''}`,
+        sort: 'created',
         order: 'desc',
         per_page: limit.toString(),
+        page: page.toString(),
       };
       
       const response = await this.get<{
-        items: GitHubRepository[];
-      }>('search/repositories', params);
+        items: GitHubIssue[];
+      }>('search/issues', params, {}, true, 3, 'json', request);
       
-      return response.items.map(this.normalizeRepository);
+      return response.items.map(issue => this.normalizeIssue(issue));
     } catch (error) {
-      console.error('Error fetching GitHub trending repositories:', error);
+      console.error('Error fetching GitHub good first issues:', error);
       if (error instanceof ApiError) {
         throw error;
       }
-      throw new ApiError(`Failed to fetch trending repositories: ${error}`, 0, this.source, false);
+      throw new ApiError(`Failed to fetch good first issues: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a specific issue of a repository
+   */
+  async getIssue(owner: string, repo: string, number: number): Promise<NormalizedGitHubIssue> {
+    try {
+      const issue = await this.get<GitHubIssue>(`repos/${owner}/${repo}/issues/${number}`);
+      return this.normalizeIssue(issue);
+    } catch (error) {
+      console.error(`Error fetching GitHub issue ${owner}/${repo}#${number}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch issue: ${error}`, 0, this.source, false);
     }
   }
 
@@ -121,14 +394,61 @@ export class GitHubClient extends BaseApiClient {
   }
 
   /**
-   * Get repositories for a specific user or organization
+   * Get a specific repository by its numeric ID
    */
-  async getUserRepositories(username: string, limit: number = 30): Promise<NormalizedGitHubRepository[]> {
+  async getRepositoryById(id: number): Promise<NormalizedGitHubRepository> {
+    try {
+      const repository = await this.get<GitHubRepository>(`repositories/${id}`);
+      return this.normalizeRepository(repository);
+    } catch (error) {
+      console.error(`Error fetching GitHub repository ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch repository: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the README of a repository as markdown, or null if it has none
+   */
+  async getReadme(owner: string, repo: string): Promise<ItemContent | null> {
+    try {
+      const readme = await this.get<GitHubReadme>(`repos/${owner}/${repo}/readme`);
+      if (readme.encoding !== 'base64') {
+        return { format: 'text', body: readme.content };
+      }
+      
+      // atob yields one char per byte; TextDecoder restores the UTF-8 text
+      const bytes = Uint8Array.from(atob(readme.content.replace(/\s/g, '')), c => c.charCodeAt(0));
+      return { format: 'text', body: new TextDecoder().decode(bytes) };
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching README for ${owner}/${repo}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch README: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get repositories for a specific user or organization, most recently
+   * updated first or, with the 'created' sort, newest first
+   */
+  async getUserRepositories(
+    username: string,
+    limit: number = 30,
+    sort: 'updated' | 'created' | 'pushed' = 'updated',
+    request: RequestOptions = {}
+  ): Promise<NormalizedGitHubRepository[]> {
     try {
       const repositories = await this.get<GitHubRepository[]>(`users/${username}/repos`, {
-        sort: 'updated',
+        sort,
         per_page: limit.toString(),
-      });
+      }, {}, true, 3, 'json', request);
       
       return repositories.map(this.normalizeRepository);
     } catch (error) {
@@ -158,6 +478,55 @@ export class GitHubClient extends BaseApiClient {
       forks: repo.forks_count,
       language: repo.language,
       topics: repo.topics || [],
+      kind: 'repository',
+      source: 'github',
+    };
+  }
+
+  /**
+   * Normalize a GitHub release to a common format. IDs name the repository,
+   * since releases can only be fetched through it.
+   */
+  private normalizeRelease(release: GitHubRelease, fullName: string): NormalizedGitHubRelease {
+    const [owner, repo] = fullName.split('/');
+    return {
+      id: `release:${owner}:${repo}:${release.id}`,
+      name: release.name?.trim() || release.tag_name,
+      tagName: release.tag_name,
+      repository: fullName,
+      url: release.html_url,
+      description: summarize(release.body),
+      body: release.body ?? '',
+      author: release.author.login,
+      authorImage: release.author.avatar_url,
+      authorUrl: release.author.html_url,
+      timestamp: new Date(release.published_at ?? release.created_at).getTime() / 1000,
+      prerelease: release.prerelease,
+      kind: 'release',
+      source: 'github',
+    };
+  }
+
+  /**
+   * Normalize a GitHub issue to a common format
+   */
+  private normalizeIssue(issue: GitHubIssue): NormalizedGitHubIssue {
+    const [owner, repo] = issue.repository_url.split('/').slice(-2);
+    return {
+      id: `issue:${owner}:${repo}:${issue.number}`,
+      title: issue.title,
+      number: issue.number,
+      repository: `${owner}/${repo}`,
+      url: issue.html_url,
+      description: summarize(issue.body),
+      body: issue.body ?? '',
+      author: issue.user.login,
+      authorImage: issue.user.avatar_url,
+      authorUrl: issue.user.html_url,
+      timestamp: new Date(issue.created_at).getTime() / 1000,
+      commentCount: issue.comments,
+      labels: issue.labels.map(label => label.name.toLowerCase()),
+      kind: 'issue',
       source: 'github',
     };
   }
@@ -165,7 +534,7 @@ export class GitHubClient extends BaseApiClient {
   /**
    * Get date filter string for trending repositories
    */
-  private getDateFilterForTrending(since: 'daily' | 'weekly' | 'monthly'): string {
+  private getDateFilterForTrending(since: TrendingWindow): string {
     const date = new Date();
     
     switch (since) {
@@ -0,0 +1,141 @@
+import { CacheStore, MemoryCacheStore } from '../cache';
+
+/**
+ * Stargazer counts of a repository over time, oldest first, as [seconds, stars]
+ */
+export type StarSnapshots = Array<[number, number]>;
+
+// Entries of repository ID and snapshots, least recently seen first
+type StarHistory = Array<[number, StarSnapshots]>;
+
+const HISTORY_KEY = 'github-stars:history';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// Snapshots closer together than this add nothing but size
+const SNAPSHOT_INTERVAL = HOUR;
+// Recent snapshots are kept hourly, older ones thinned to one a day
+const HOURLY_FOR = 2 * DAY;
+// Long enough for the monthly window
+const KEEP_FOR = 32 * DAY;
+// Stop tracking the repositories seen least recently beyond this
+const MAX_REPOS = 2000;
+// Less history than this says more about noise than velocity
+const MIN_SPAN = HOUR;
+
+// Updates read and rewrite the whole history, so run them one at a time
+let pending: Promise<unknown> = Promise.resolve();
+
+// Held on globalThis because Next.js bundles instrumentation and route
+// handlers separately, each with its own copy of this module
+const globalHistory = globalThis as typeof globalThis & {
+  __hackerhomeStarHistoryStore?: CacheStore;
+};
+
+/**
+ * Get the store star history is kept in. It is not the shared cache store,
+ * where ordinary response churn would evict weeks of history.
+ */
+function getStarHistoryStore(): CacheStore {
+  if (!globalHistory.__hackerhomeStarHistoryStore) {
+    globalHistory.__hackerhomeStarHistoryStore = new MemoryCacheStore();
+  }
+  return globalHistory.__hackerhomeStarHistoryStore;
+}
+
+/**
+ * Replace the store star history is kept in, e.g. with one on disk
+ */
+export function setStarHistoryStore(store: CacheStore): void {
+  globalHistory.__hackerhomeStarHistoryStore = store;
+}
+
+/**
+ * Drop snapshots that are too old, and thin out older ones to one a day
+ */
+function thin(snapshots: StarSnapshots, now: number): StarSnapshots {
+  const kept: StarSnapshots = [];
+  snapshots.forEach(snapshot => {
+    const [time] = snapshot;
+    if (now - time > KEEP_FOR) return;
+    const previous = kept[kept.length - 1];
+    if (previous && now - time > HOURLY_FOR && Math.floor(previous[0] / DAY) === Math.floor(time / DAY)) return;
+    kept.push(snapshot);
+  });
+  return kept;
+}
+
+/**
+ * Record the stargazer counts of some repositories as of when they were
+ * fetched from GitHub, in seconds, returning the snapshots of each of them.
+ * Counts read from a cached response keep the time it was fetched, so they
+ * never pass for newer ones.
+ */
+export function recordStarSnapshots(
+  repos: Array<{ id: number; stars: number; fetchedAt: number }>,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<Record<number, StarSnapshots>> {
+  const update = pending.then(async () => {
+    const store = getStarHistoryStore();
+    const stored = (await store.get<StarHistory>(HISTORY_KEY).catch(() => null))?.data ?? [];
+    const history = new Map(stored);
+
+    repos.forEach(({ id, stars, fetchedAt }) => {
+      const snapshots = history.get(id) ?? [];
+      const last = snapshots[snapshots.length - 1];
+      if (!last || fetchedAt - last[0] >= SNAPSHOT_INTERVAL) {
+        snapshots.push([fetchedAt, stars]);
+      }
+      // Re-inserting moves the repository to the most recently seen position
+      history.delete(id);
+      history.set(id, thin(snapshots, now));
+    });
+
+    Array.from(history.keys()).slice(0, Math.max(0, history.size - MAX_REPOS)).forEach(id => {
+      history.delete(id);
+    });
+
+    await store.set(HISTORY_KEY, {
+      data: Array.from(history.entries()),
+      timestamp: now * 1000,
+      expiresAt: (now + KEEP_FOR) * 1000,
+      staleUntil: (now + KEEP_FOR) * 1000,
+    }).catch(error => {
+      console.error('[github] Failed to save star history:', error);
+    });
+
+    return Object.fromEntries(repos.map(({ id }) => [id, history.get(id) ?? []]));
+  });
+
+  pending = update.catch(() => undefined);
+  return update;
+}
+
+/**
+ * Estimate the stars a repository gained since the start of a window, or null
+ * when there isn't enough history yet. Repositories created within the window
+ * gained all of their stars in it; otherwise the gain since the earliest
+ * usable snapshot is scaled up to the whole window.
+ */
+export function getStarsGained(
+  snapshots: StarSnapshots,
+  stars: number,
+  createdAt: number,
+  windowStart: number,
+  now: number = Math.floor(Date.now() / 1000)
+): number | null {
+  if (createdAt >= windowStart) {
+    return stars;
+  }
+
+  const baseline = [...snapshots].reverse().find(([time]) => time <= windowStart)
+    ?? snapshots.find(([time]) => time > windowStart);
+  if (!baseline || now - baseline[0] < MIN_SPAN) {
+    return null;
+  }
+
+  const [time, baselineStars] = baseline;
+  const gained = stars - baselineStars;
+  return time <= windowStart ? gained : Math.round(gained * (now - windowStart) / (now - time));
+}
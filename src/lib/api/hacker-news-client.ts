@@ -1,4 +1,6 @@
-import { BaseApiClient, ApiError } from './base-client';
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { CommentThread, ItemContent, NewsComment } from './index';
+import { sanitizeHtml } from '../utils';
 
 export interface HackerNewsItem {
   id: number;
@@ -10,6 +12,11 @@ export interface HackerNewsItem {
   score: number;
   descendants: number; // Number of comments
   kids?: number[]; // IDs of comments
+  parts?: number[]; // IDs of poll options
+  poll?: number; // ID of the parent poll for a poll option
+  parent?: number; // ID of the parent item for a comment
+  deleted?: boolean;
+  dead?: boolean;
   type: 'story' | 'comment' | 'job' | 'poll' | 'pollopt';
 }
 
@@ -21,6 +28,26 @@ export interface HackerNewsUser {
   submitted?: number[];
 }
 
+// Story found by the Algolia search API, which indexes Hacker News
+interface HackerNewsSearchHit {
+  objectID: string;
+  title: string;
+  url?: string | null;
+  story_text?: string | null;
+  author: string;
+  created_at_i: number;
+  points?: number | null;
+  num_comments?: number | null;
+}
+
+export type HackerNewsFeedType = 'top' | 'new' | 'best' | 'ask' | 'show' | 'job';
+
+export interface HackerNewsPollOption {
+  id: number;
+  text: string; // Sanitized HTML
+  points: number;
+}
+
 export interface NormalizedHackerNewsItem {
   id: number;
   title: string;
@@ -30,9 +57,31 @@ export interface NormalizedHackerNewsItem {
   timestamp: number;
   points: number;
   commentCount: number;
+  itemType: 'story' | 'job' | 'poll';
+  pollOptions?: HackerNewsPollOption[];
   source: 'hackernews';
 }
 
+export interface HackerNewsStoryPage {
+  items: NormalizedHackerNewsItem[];
+  nextOffset: number | null; // null once the end of the list is reached
+}
+
+// List endpoint for each feed type
+const FEED_ENDPOINTS: Record<HackerNewsFeedType, string> = {
+  top: 'topstories.json',
+  new: 'newstories.json',
+  best: 'beststories.json',
+  ask: 'askstories.json',
+  show: 'showstories.json',
+  job: 'jobstories.json',
+};
+
+const LISTABLE_TYPES: HackerNewsItem['type'][] = ['story', 'job', 'poll'];
+
+// Most submissions are comments, so a user's stories are found through search
+const SEARCH_URL = 'https://hn.algolia.com/api/v1/search_by_date';
+
 /**
  * Client for the Hacker News API
  * Documentation: https://github.com/HackerNews/API
@@ -52,62 +101,235 @@ export class HackerNewsClient extends BaseApiClient {
    * Get the top stories from Hacker News
    */
   async getTopStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
-    const storyIds = await this.get<number[]>('topstories.json');
-    const limitedIds = storyIds.slice(0, limit);
+    return this.getStories('top', limit);
+  }
+
+  /**
+   * Get the newest stories from Hacker News
+   */
+  async getNewStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
+    return this.getStories('new', limit);
+  }
+
+  /**
+   * Get the best stories from Hacker News
+   */
+  async getBestStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
+    return this.getStories('best', limit);
+  }
+
+  /**
+   * Get the latest Ask HN stories
+   */
+  async getAskStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
+    return this.getStories('ask', limit);
+  }
+
+  /**
+   * Get the latest Show HN stories
+   */
+  async getShowStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
+    return this.getStories('show', limit);
+  }
+
+  /**
+   * Get the latest job postings
+   */
+  async getJobStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
+    return this.getStories('job', limit);
+  }
+
+  /**
+   * Get stories from one of the Hacker News lists
+   */
+  async getStories(
+    feedType: HackerNewsFeedType,
+    limit: number = 30,
+    request: RequestOptions = {}
+  ): Promise<NormalizedHackerNewsItem[]> {
+    const { items } = await this.getStoriesPage(feedType, limit, 0, request);
+    return items;
+  }
+
+  /**
+   * Get a page of stories from one of the Hacker News lists, starting at an
+   * offset into the list's story IDs
+   */
+  async getStoriesPage(
+    feedType: HackerNewsFeedType,
+    limit: number = 30,
+    offset: number = 0,
+    request: RequestOptions = {}
+  ): Promise<HackerNewsStoryPage> {
+    const storyIds = await this.get<number[]>(FEED_ENDPOINTS[feedType], {}, {}, true, 3, 'json', request);
+    const pageIds = storyIds.slice(offset, offset + limit);
+    const nextOffset = offset + limit < storyIds.length ? offset + limit : null;
 
     try {
       const stories = await Promise.all(
-        limitedIds.map(id => this.getItem(id))
+        pageIds.map(id => this.getItem(id, request))
       );
       
-      return stories
-        .filter((story): story is HackerNewsItem => !!story && story.type === 'story')
-        .map(this.normalizeItem);
+      const items = await Promise.all(
+        stories
+          .filter((story): story is HackerNewsItem => !!story && LISTABLE_TYPES.includes(story.type))
+          .map(story => this.normalizeWithPollOptions(story))
+      );
+      return { items, nextOffset };
     } catch (error) {
-      console.error('Error fetching Hacker News top stories:', error);
+      console.error(`Error fetching Hacker News ${feedType} stories:`, error);
       if (error instanceof ApiError) {
         throw error;
       }
-      throw new ApiError(`Failed to fetch top stories: ${error}`, 0, this.source, false);
+      throw new ApiError(`Failed to fetch ${feedType} stories: ${error}`, 0, this.source, false);
     }
   }
 
   /**
-   * Get the newest stories from Hacker News
+   * Get the options of a poll, in display order
    */
-  async getNewStories(limit: number = 30): Promise<NormalizedHackerNewsItem[]> {
-    const storyIds = await this.get<number[]>('newstories.json');
-    const limitedIds = storyIds.slice(0, limit);
+  async getPollOptions(poll: HackerNewsItem): Promise<HackerNewsPollOption[]> {
+    const parts = await Promise.all((poll.parts || []).map(id => this.getItem(id)));
+    
+    return parts
+      .filter((part): part is HackerNewsItem => !!part && part.type === 'pollopt')
+      .map(part => ({
+        id: part.id,
+        // Option text is HTML, like comments
+        text: sanitizeHtml(part.text || ''),
+        points: part.score,
+      }));
+  }
+
+  /**
+   * Get a specific item by ID
+   */
+  async getItem(id: number, request: RequestOptions = {}): Promise<HackerNewsItem | null> {
+    return this.get<HackerNewsItem>(`item/${id}.json`, {}, {}, true, 3, 'json', request);
+  }
+
+  /**
+   * Get a specific story by ID in normalized form
+   */
+  async getStory(id: number): Promise<NormalizedHackerNewsItem | null> {
+    const item = await this.getItem(id);
+    return item && LISTABLE_TYPES.includes(item.type) ? this.normalizeWithPollOptions(item) : null;
+  }
+
+  /**
+   * Get the text of a story (Ask HN, job posts, polls); link posts usually have none
+   */
+  async getStoryContent(id: number): Promise<ItemContent | null> {
+    const item = await this.getItem(id);
+    return item?.text ? { format: 'html', body: sanitizeHtml(item.text) } : null;
+  }
+
+  /**
+   * Get the comment thread of an item. Comments are loaded lazily by ID
+   * with getComments, so only the top-level IDs are returned here.
+   */
+  async getCommentThread(id: number): Promise<CommentThread> {
+    const item = await this.getItem(id);
+    if (!item) {
+      throw new ApiError(`Item ${id} not found`, 404, this.source, false);
+    }
+    
+    return {
+      itemId: String(id),
+      source: 'hackernews',
+      rootIds: (item.kids || []).map(String),
+      comments: [],
+    };
+  }
 
+  /**
+   * Get comments by ID, in the order requested
+   */
+  async getComments(ids: number[]): Promise<NewsComment[]> {
     try {
-      const stories = await Promise.all(
-        limitedIds.map(id => this.getItem(id))
-      );
+      const items = await Promise.all(ids.map(id => this.getItem(id)));
       
-      return stories
-        .filter((story): story is HackerNewsItem => !!story && story.type === 'story')
-        .map(this.normalizeItem);
+      return items
+        .filter((item): item is HackerNewsItem => !!item && item.type === 'comment')
+        .map(item => this.normalizeComment(item));
     } catch (error) {
-      console.error('Error fetching Hacker News new stories:', error);
+      console.error('Error fetching Hacker News comments:', error);
       if (error instanceof ApiError) {
         throw error;
       }
-      throw new ApiError(`Failed to fetch new stories: ${error}`, 0, this.source, false);
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, this.source, false);
     }
   }
 
   /**
-   * Get a specific item by ID
+   * Get a user by ID
    */
-  async getItem(id: number): Promise<HackerNewsItem | null> {
-    return this.get<HackerNewsItem>(`item/${id}.json`);
+  async getUser(id: string): Promise<HackerNewsUser | null> {
+    return this.get<HackerNewsUser>(`user/${id}.json`);
   }
 
   /**
-   * Get a user by ID
+   * Get the latest stories a user submitted, newest first, in one search
+   * request. Unknown users have no stories rather than failing.
    */
-  async getUser(id: string): Promise<HackerNewsUser | null> {
-    return this.get<HackerNewsUser>(`user/${id}.json`);
+  async getUserSubmissions(
+    id: string,
+    limit: number = 10,
+    request: RequestOptions = {}
+  ): Promise<NormalizedHackerNewsItem[]> {
+    try {
+      const { hits } = await this.get<{ hits: HackerNewsSearchHit[] }>(SEARCH_URL, {
+        tags: `story,author_${id}`,
+        hitsPerPage: String(limit),
+      }, {}, true, 3, 'json', request);
+      
+      return hits.map(hit => ({
+        id: Number(hit.objectID),
+        title: hit.title,
+        url: hit.url ?? undefined,
+        content: hit.story_text ?? undefined,
+        author: hit.author,
+        timestamp: hit.created_at_i,
+        points: hit.points ?? 0,
+        commentCount: hit.num_comments ?? 0,
+        itemType: 'story',
+        source: 'hackernews',
+      }));
+    } catch (error) {
+      console.error(`Error fetching Hacker News submissions of ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch submissions: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Normalize an item, resolving poll options for polls
+   */
+  private async normalizeWithPollOptions(item: HackerNewsItem): Promise<NormalizedHackerNewsItem> {
+    const normalized = this.normalizeItem(item);
+    if (item.type === 'poll') {
+      normalized.pollOptions = await this.getPollOptions(item);
+    }
+    return normalized;
+  }
+
+  /**
+   * Normalize a Hacker News comment to a common format
+   */
+  private normalizeComment(item: HackerNewsItem): NewsComment {
+    const removed = !!(item.deleted || item.dead);
+    
+    return {
+      id: String(item.id),
+      parentId: item.parent !== undefined ? String(item.parent) : undefined,
+      author: item.by || '[deleted]',
+      text: removed ? '' : sanitizeHtml(item.text || ''),
+      timestamp: item.time,
+      deleted: removed,
+      replyIds: (item.kids || []).map(String),
+    };
   }
 
   /**
@@ -122,7 +344,9 @@ export class HackerNewsClient extends BaseApiClient {
       author: item.by,
       timestamp: item.time,
       points: item.score,
-      commentCount: item.descendants,
+      // Job postings have no comments, so the API omits descendants
+      commentCount: item.descendants ?? 0,
+      itemType: item.type === 'job' || item.type === 'poll' ? item.type : 'story',
       source: 'hackernews',
     };
   }
@@ -0,0 +1,50 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Networks a server-side fetch of a user-supplied URL must never reach.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 networks.
+const PRIVATE_NETWORKS = new BlockList();
+const PRIVATE_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, including broadcast
+];
+const PRIVATE_IPV6: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, which can embed any IPv4 address
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+];
+PRIVATE_IPV4.forEach(([network, prefix]) => PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4'));
+PRIVATE_IPV6.forEach(([network, prefix]) => PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Check that every address a host name resolves to is public. Only import
+ * this from server code; it is installed for feed fetches from
+ * src/instrumentation.ts.
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true }).catch(() => []);
+
+  return addresses.length > 0 && addresses.every(({ address, family }) =>
+    !PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+}
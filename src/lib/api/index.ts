@@ -1,14 +1,44 @@
+import type { RateLimitStatus } from './base-client';
+
 // Export all API clients
 export * from './base-client';
 export * from './hacker-news-client';
 export * from './devto-client';
 export * from './github-client';
+export * from './lobsters-client';
+export * from './reddit-client';
+export * from './product-hunt-client';
+export * from './rss-client';
+export * from './feed-client';
+
+// Identifier of a registered news source (see src/lib/sources)
+export type SourceId = string;
+
+// Export a common interface for poll options
+export interface PollOption {
+  id: number | string;
+  text: string; // Sanitized HTML
+  points: number;
+}
+
+// Export a common interface for the same story found on another source
+export interface CrossPost {
+  source: SourceId;
+  id: number | string;
+  title: string;
+  url?: string;
+  points?: number;
+  reactions?: number;
+  stars?: number;
+  commentCount?: number;
+}
 
 // Export a common interface for normalized items
 export interface NewsItem {
   id: number | string;
   title: string;
   url?: string;
+  canonicalUrl?: string; // Original location of a cross-posted article
   content?: string;
   description?: string;
   author: string;
@@ -18,13 +48,86 @@ export interface NewsItem {
   points?: number;
   reactions?: number;
   stars?: number;
+  starsGained?: number; // Stars gained in the trending window
   forks?: number;
   commentCount?: number;
   readingTime?: number;
   language?: string | null;
   tags?: string[];
   coverImage?: string | null;
-  source: 'hackernews' | 'devto' | 'github';
+  kind?: string; // Item kind within its source, e.g. 'job' or 'poll' on Hacker News
+  pollOptions?: PollOption[];
+  crossPosts?: CrossPost[]; // Duplicates from other sources merged into this item
+  mutedBy?: string[]; // IDs of the dimming mute rules that matched this item
+  source: SourceId;
+}
+
+// Export a common interface for normalized comments
+export interface NewsComment {
+  id: string;
+  parentId?: string;
+  author: string;
+  authorImage?: string;
+  text: string; // Sanitized HTML
+  timestamp: number;
+  deleted?: boolean;
+  replyIds: string[];
+}
+
+// Export a common interface for an item's comment thread. Sources that return
+// whole trees fill in `comments`; others leave it empty and load by ID.
+export interface CommentThread {
+  itemId: string;
+  source: SourceId;
+  rootIds: string[];
+  comments: NewsComment[];
+}
+
+// Export a common interface for an item's full content
+export interface ItemContent {
+  format: 'html' | 'text'; // HTML is sanitized; text is shown as-is (e.g. README markdown)
+  body: string;
+}
+
+// Export a common interface for the item detail view
+export interface ItemDetail {
+  item: NewsItem;
+  content: ItemContent | null;
+  related: NewsItem[];
+}
+
+// Export a common type for the next-page cursor of each source that has more items
+export type FeedCursor = Record<SourceId, string>;
+
+// Export a common interface for per-source fetch errors
+export interface SourceError {
+  id: SourceId;
+  message: string;
+}
+
+// Export a common interface for the health of a source, with times in milliseconds
+export interface SourceHealth {
+  id: SourceId;
+  name: string;
+  lastFetchedAt: number | null; // Last time the source returned items
+  error: string | null;
+  rateLimit: RateLimitStatus | null;
+  cacheUpdatedAt: number | null; // When the newest cached response was fetched
+}
+
+// Export a common interface for the outcome of a live test fetch
+export interface SourceTestResult {
+  // 'empty' when the fetch worked but returned no items
+  status: 'ok' | 'empty' | 'failed';
+  itemCount: number;
+  durationMs: number;
+  error?: string;
+  health: SourceHealth;
+}
+
+// Utility function to build a stable key for an item across sources
+export function getItemKey(item: Pick<NewsItem, 'source' | 'id'>): string {
+  return `${item.source}:${item.id}`;
 }
 
 // Utility function to format relative time
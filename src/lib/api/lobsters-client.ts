@@ -0,0 +1,237 @@
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { CommentThread, ItemContent, NewsComment } from './index';
+import { sanitizeHtml, stripHtml } from '../utils';
+
+// Older responses embed the user; current ones only give the username
+type LobstersUser = string | { username: string; avatar_url?: string };
+
+export interface LobstersStory {
+  short_id: string;
+  short_id_url: string;
+  created_at: string;
+  title: string;
+  url: string; // Empty for text posts
+  score: number;
+  comment_count: number;
+  description: string;
+  comments_url: string;
+  submitter_user: LobstersUser;
+  tags: string[];
+  // Only included when fetching a single story
+  comments?: LobstersComment[];
+}
+
+export interface LobstersComment {
+  short_id: string;
+  created_at: string;
+  comment: string;
+  is_deleted?: boolean;
+  depth?: number; // 0 for top-level comments
+  indent_level?: number; // 1 for top-level comments, in older responses
+  parent_comment?: string | null;
+  commenting_user: LobstersUser;
+}
+
+export type LobstersFeedType = 'hottest' | 'newest';
+
+export interface NormalizedLobstersStory {
+  id: string;
+  title: string;
+  url: string;
+  description: string;
+  author: string;
+  authorImage: string;
+  timestamp: number;
+  points: number;
+  commentCount: number;
+  tags: string[];
+  source: 'lobsters';
+}
+
+export interface LobstersStoryPage {
+  items: NormalizedLobstersStory[];
+  nextOffset: number | null; // null once the end of the list is reached
+}
+
+const ORIGIN = 'https://lobste.rs';
+
+// Lobsters always lists this many stories per page
+const PAGE_SIZE = 25;
+
+// Lists end somewhere; stop paging after this many pages rather than asking forever
+const MAX_PAGES = 20;
+
+function getUser(user: LobstersUser): { name: string; image: string } {
+  if (typeof user === 'string') {
+    return { name: user, image: `${ORIGIN}/avatars/${user}-100.png` };
+  }
+  const image = user.avatar_url ?? `/avatars/${user.username}-100.png`;
+  return { name: user.username, image: new URL(image, ORIGIN).href };
+}
+
+/**
+ * Client for the Lobsters JSON endpoints
+ * Documentation: https://lobste.rs/about (append .json to most pages)
+ */
+export class LobstersClient extends BaseApiClient {
+  constructor() {
+    super(
+      `${ORIGIN}/`,
+      'lobsters',
+      {},
+      { maxRequests: 30, windowMs: 60 * 1000 } // A small community site, so keep bursts modest
+    );
+  }
+
+  /**
+   * Get a page of stories. Lobsters pages are a fixed size, so the offset is
+   * mapped onto them and as many pages are read as the limit needs.
+   */
+  async getStoriesPage(
+    feedType: LobstersFeedType,
+    limit: number = 25,
+    offset: number = 0,
+    request: RequestOptions = {}
+  ): Promise<LobstersStoryPage> {
+    try {
+      const firstPage = Math.floor(offset / PAGE_SIZE) + 1;
+      const lastPage = Math.min(Math.floor((offset + limit - 1) / PAGE_SIZE) + 1, MAX_PAGES);
+      const pages = await Promise.all(
+        Array.from({ length: Math.max(0, lastPage - firstPage + 1) }, (_, i) =>
+          this.get<LobstersStory[]>(`${feedType}.json`, { page: String(firstPage + i) }, {}, true, 3, 'json', request)
+        )
+      );
+
+      const start = offset - (firstPage - 1) * PAGE_SIZE;
+      const stories = pages.flat().slice(start, start + limit);
+      const exhausted = pages.length === 0 || pages[pages.length - 1].length < PAGE_SIZE || lastPage === MAX_PAGES;
+      const nextOffset = stories.length === limit && !exhausted ? offset + limit : null;
+
+      return { items: stories.map(story => this.normalizeStory(story)), nextOffset };
+    } catch (error) {
+      console.error(`Error fetching Lobsters ${feedType} stories:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch ${feedType} stories: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a specific story by its short ID
+   */
+  async getStory(id: string): Promise<NormalizedLobstersStory> {
+    try {
+      const story = await this.get<LobstersStory>(`s/${encodeURIComponent(id)}.json`);
+      return this.normalizeStory(story);
+    } catch (error) {
+      console.error(`Error fetching Lobsters story ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch story: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the text of a story, for text posts and links with a description
+   */
+  async getStoryContent(id: string): Promise<ItemContent | null> {
+    try {
+      const story = await this.get<LobstersStory>(`s/${encodeURIComponent(id)}.json`);
+      return story.description ? { format: 'html', body: sanitizeHtml(story.description) } : null;
+    } catch (error) {
+      console.error(`Error fetching Lobsters story text ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch story text: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the full comment tree of a story
+   */
+  async getCommentThread(storyId: string): Promise<CommentThread> {
+    try {
+      const story = await this.get<LobstersStory>(`s/${encodeURIComponent(storyId)}.json`);
+
+      // Comments arrive in thread order with their depth, so the parent of
+      // each is the last comment seen one level up
+      const comments: NewsComment[] = [];
+      const byId = new Map<string, NewsComment>();
+      const ancestors: string[] = [];
+      const rootIds: string[] = [];
+      (story.comments ?? []).forEach(raw => {
+        const depth = raw.depth ?? Math.max(0, (raw.indent_level ?? 1) - 1);
+        ancestors.length = depth;
+        const parentId = raw.parent_comment ?? ancestors[depth - 1];
+        const comment = this.normalizeComment(raw, parentId);
+
+        comments.push(comment);
+        byId.set(comment.id, comment);
+        ancestors[depth] = comment.id;
+        const parent = parentId ? byId.get(parentId) : undefined;
+        if (parent) {
+          parent.replyIds.push(comment.id);
+        } else {
+          rootIds.push(comment.id);
+        }
+      });
+
+      return {
+        itemId: storyId,
+        source: 'lobsters',
+        rootIds,
+        comments,
+      };
+    } catch (error) {
+      console.error(`Error fetching Lobsters comments for story ${storyId}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Normalize a Lobsters comment to a common format
+   */
+  private normalizeComment(comment: LobstersComment, parentId?: string): NewsComment {
+    const user = getUser(comment.commenting_user);
+    return {
+      id: comment.short_id,
+      parentId,
+      author: user.name,
+      authorImage: user.image,
+      text: sanitizeHtml(comment.comment),
+      timestamp: new Date(comment.created_at).getTime() / 1000,
+      deleted: comment.is_deleted,
+      replyIds: [],
+    };
+  }
+
+  /**
+   * Normalize a Lobsters story to a common format
+   */
+  private normalizeStory(story: LobstersStory): NormalizedLobstersStory {
+    const user = getUser(story.submitter_user);
+    return {
+      id: story.short_id,
+      title: story.title,
+      // Text posts link to their own discussion
+      url: story.url || story.comments_url,
+      description: stripHtml(story.description),
+      author: user.name,
+      authorImage: user.image,
+      timestamp: new Date(story.created_at).getTime() / 1000,
+      points: story.score,
+      commentCount: story.comment_count,
+      tags: story.tags,
+      source: 'lobsters',
+    };
+  }
+}
+
+// Export a singleton instance
+export const lobstersClient = new LobstersClient();
@@ -0,0 +1,250 @@
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { ItemContent } from './index';
+
+export interface ProductHuntPost {
+  id: string;
+  name: string;
+  tagline: string;
+  description: string | null;
+  url: string; // Product Hunt page of the post
+  website: string; // Redirect to the product's own site
+  createdAt: string;
+  votesCount: number;
+  commentsCount: number;
+  thumbnail: { url: string } | null;
+  topics: {
+    edges: Array<{ node: { name: string; slug: string } }>;
+  };
+  user: {
+    name: string;
+    username: string;
+    profileImage: string | null;
+  };
+}
+
+interface ProductHuntPostsResponse {
+  posts: {
+    edges: Array<{ node: ProductHuntPost }>;
+    pageInfo: {
+      endCursor: string | null;
+      hasNextPage: boolean;
+    };
+  };
+}
+
+interface ProductHuntPostResponse {
+  post: ProductHuntPost | null;
+}
+
+export type ProductHuntFeedType = 'ranking' | 'newest';
+
+export interface NormalizedProductHuntPost {
+  id: string;
+  title: string;
+  url: string;
+  website: string;
+  description: string;
+  author: string;
+  authorImage?: string;
+  timestamp: number;
+  votes: number;
+  commentCount: number;
+  thumbnail: string | null;
+  topics: string[];
+  source: 'producthunt';
+}
+
+export interface ProductHuntPostPage {
+  items: NormalizedProductHuntPost[];
+  endCursor: string | null; // null once the end of the day's posts is reached
+}
+
+const POST_FIELDS = `
+  id
+  name
+  tagline
+  description
+  url
+  website
+  createdAt
+  votesCount
+  commentsCount
+  thumbnail {
+    url
+  }
+  topics(first: 5) {
+    edges {
+      node {
+        name
+        slug
+      }
+    }
+  }
+  user {
+    name
+    username
+    profileImage
+  }
+`;
+
+const POSTS_QUERY = `
+  query TodaysPosts($first: Int!, $after: String, $postedAfter: DateTime!, $order: PostsOrder!) {
+    posts(first: $first, after: $after, postedAfter: $postedAfter, order: $order) {
+      edges {
+        node {
+          ${POST_FIELDS}
+        }
+      }
+      pageInfo {
+        endCursor
+        hasNextPage
+      }
+    }
+  }
+`;
+
+const POST_QUERY = `
+  query Post($id: ID!) {
+    post(id: $id) {
+      ${POST_FIELDS}
+    }
+  }
+`;
+
+const ORDERS: Record<ProductHuntFeedType, string> = {
+  ranking: 'RANKING',
+  newest: 'NEWEST',
+};
+
+/**
+ * Get the start of the current Product Hunt day, which runs on Pacific time.
+ * Stays the same all day, so today's queries share a cache entry.
+ */
+function getStartOfLaunchDay(now: Date = new Date()): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: 'America/Los_Angeles',
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(now)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const elapsed = (((parts.hour % 24) * 60 + parts.minute) * 60 + parts.second) * 1000 + now.getMilliseconds();
+  return new Date(now.getTime() - elapsed).toISOString();
+}
+
+/**
+ * Client for the Product Hunt GraphQL API
+ * Documentation: https://api.producthunt.com/v2/docs
+ */
+export class ProductHuntClient extends BaseApiClient {
+  constructor() {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json'
+    };
+
+    // The API can't be used without a developer token
+    if (process.env.PRODUCT_HUNT_API_TOKEN) {
+      headers['Authorization'] = `Bearer ${process.env.PRODUCT_HUNT_API_TOKEN}`;
+    }
+
+    super(
+      'https://api.producthunt.com/v2/api/graphql',
+      'producthunt',
+      headers,
+      { maxRequests: 60, windowMs: 15 * 60 * 1000 } // Product Hunt meters query complexity per 15 minutes
+    );
+  }
+
+  /**
+   * Get a page of the posts launched today
+   */
+  async getTodaysPostsPage(
+    feedType: ProductHuntFeedType = 'ranking',
+    limit: number = 20,
+    after?: string,
+    request: RequestOptions = {}
+  ): Promise<ProductHuntPostPage> {
+    try {
+      this.checkToken();
+      const { posts } = await this.graphql<ProductHuntPostsResponse>(POSTS_QUERY, {
+        first: Math.min(limit, 50),
+        after: after ?? null,
+        postedAfter: getStartOfLaunchDay(),
+        order: ORDERS[feedType],
+      }, '', {}, true, request);
+
+      return {
+        items: posts.edges.map(({ node }) => this.normalizePost(node)),
+        endCursor: posts.pageInfo.hasNextPage ? posts.pageInfo.endCursor : null,
+      };
+    } catch (error) {
+      console.error(`Error fetching Product Hunt ${feedType} posts:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch ${feedType} posts: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a specific post by ID
+   */
+  async getPost(id: string): Promise<NormalizedProductHuntPost | null> {
+    try {
+      this.checkToken();
+      const { post } = await this.graphql<ProductHuntPostResponse>(POST_QUERY, { id });
+      return post ? this.normalizePost(post) : null;
+    } catch (error) {
+      console.error(`Error fetching Product Hunt post ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch post: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the maker's description of a post
+   */
+  async getPostContent(id: string): Promise<ItemContent | null> {
+    const post = await this.getPost(id);
+    return post?.description ? { format: 'text', body: post.description } : null;
+  }
+
+  /**
+   * Fail early, with a clear message, when no token is configured
+   */
+  private checkToken(): void {
+    if (!this.defaultHeaders['Authorization']) {
+      throw new ApiError('Product Hunt API token is not configured', 401, this.source, false);
+    }
+  }
+
+  /**
+   * Normalize a Product Hunt post to a common format
+   */
+  private normalizePost(post: ProductHuntPost): NormalizedProductHuntPost {
+    return {
+      id: post.id,
+      title: `${post.name} – ${post.tagline}`,
+      url: post.url,
+      website: post.website,
+      description: post.description ?? post.tagline,
+      author: post.user.name,
+      authorImage: post.user.profileImage ?? undefined,
+      timestamp: new Date(post.createdAt).getTime() / 1000,
+      votes: post.votesCount,
+      commentCount: post.commentsCount,
+      thumbnail: post.thumbnail?.url ?? null,
+      topics: post.topics.edges.map(({ node }) => node.slug),
+      source: 'producthunt',
+    };
+  }
+}
+
+// Export a singleton instance
+export const productHuntClient = new ProductHuntClient();
@@ -0,0 +1,293 @@
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { CommentThread, ItemContent, NewsComment } from './index';
+import { sanitizeHtml } from '../utils';
+
+export interface RedditPost {
+  id: string;
+  name: string; // Fullname, e.g. t3_abc123
+  title: string;
+  url: string;
+  permalink: string;
+  author: string;
+  subreddit: string;
+  created_utc: number;
+  score: number;
+  num_comments: number;
+  link_flair_text: string | null;
+  is_self: boolean;
+  selftext: string;
+  selftext_html: string | null;
+  stickied: boolean;
+  over_18: boolean;
+}
+
+export interface RedditComment {
+  id: string;
+  parent_id: string; // t3_ for top-level comments, t1_ for replies
+  author: string;
+  body: string;
+  body_html: string;
+  created_utc: number;
+  // An empty string when there are no replies
+  replies: RedditListing<RedditThing> | '';
+}
+
+// Placeholder for replies Reddit didn't include in the response
+interface RedditMore {
+  id: string;
+  children: string[];
+}
+
+type RedditThing =
+  | { kind: 't1'; data: RedditComment }
+  | { kind: 't3'; data: RedditPost }
+  | { kind: 'more'; data: RedditMore };
+
+interface RedditListing<T> {
+  kind: 'Listing';
+  data: {
+    after: string | null;
+    children: T[];
+  };
+}
+
+export type RedditFeedType = 'hot' | 'new' | 'top';
+
+export interface NormalizedRedditPost {
+  id: string;
+  title: string;
+  url: string;
+  description: string;
+  author: string;
+  subreddit: string;
+  timestamp: number;
+  points: number;
+  commentCount: number;
+  flair: string | null;
+  tags: string[];
+  source: 'reddit';
+}
+
+export interface RedditPostPage {
+  items: NormalizedRedditPost[];
+  after: string | null; // null once the end of the listing is reached
+}
+
+const ORIGIN = 'https://www.reddit.com';
+const SUBREDDIT_NAME = /^[A-Za-z0-9_]{2,21}$/;
+const MAX_SUBREDDITS = 10;
+const DESCRIPTION_LENGTH = 300;
+
+export const DEFAULT_SUBREDDITS = ['programming'];
+
+/**
+ * Read a list of subreddits like "r/programming, rust" into valid names,
+ * falling back to the defaults when none are valid
+ */
+export function parseSubreddits(value?: string): string[] {
+  const names = (value ?? '')
+    .split(/[\s,+]+/)
+    .map(name => name.replace(/^\/?r\//i, ''))
+    .filter(name => SUBREDDIT_NAME.test(name));
+  const unique = Array.from(new Set(names.map(name => name.toLowerCase())));
+  return unique.length > 0 ? unique.slice(0, MAX_SUBREDDITS) : DEFAULT_SUBREDDITS;
+}
+
+/**
+ * Client for the public Reddit JSON listings
+ * Documentation: https://www.reddit.com/dev/api
+ */
+export class RedditClient extends BaseApiClient {
+  constructor() {
+    super(
+      `${ORIGIN}/`,
+      'reddit',
+      {
+        // Reddit throttles requests with generic user agents much harder
+        'User-Agent': 'web:hackerhome:v2 (news aggregator)',
+      },
+      { maxRequests: 10, windowMs: 60 * 1000 } // Unauthenticated clients get around 10 requests per minute
+    );
+  }
+
+  /**
+   * Get a page of posts from one or more subreddits, combined into one listing
+   */
+  async getPostsPage(
+    subreddits: string[],
+    feedType: RedditFeedType = 'hot',
+    limit: number = 25,
+    after?: string,
+    request: RequestOptions = {}
+  ): Promise<RedditPostPage> {
+    try {
+      const params: Record<string, string> = {
+        limit: String(Math.min(limit, 100)),
+        raw_json: '1',
+      };
+      if (after) {
+        params.after = after;
+      }
+      if (feedType === 'top') {
+        params.t = 'day';
+      }
+
+      const listing = await this.get<RedditListing<RedditThing>>(
+        `r/${subreddits.map(encodeURIComponent).join('+')}/${feedType}.json`,
+        params,
+        {},
+        true,
+        3,
+        'json',
+        request
+      );
+
+      // Pinned announcements aren't news, and NSFW posts are left out of the feed
+      const posts = listing.data.children
+        .filter((thing): thing is Extract<RedditThing, { kind: 't3' }> => thing.kind === 't3')
+        .filter(({ data }) => !data.stickied && !data.over_18);
+
+      return {
+        items: posts.map(({ data }) => this.normalizePost(data)),
+        after: listing.data.after,
+      };
+    } catch (error) {
+      console.error(`Error fetching Reddit ${feedType} posts for ${subreddits.join('+')}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch ${feedType} posts: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a specific post by ID
+   */
+  async getPost(id: string): Promise<NormalizedRedditPost | null> {
+    try {
+      const listing = await this.get<RedditListing<RedditThing>>(
+        `by_id/t3_${encodeURIComponent(id)}.json`,
+        { raw_json: '1' }
+      );
+      const post = listing.data.children.find(thing => thing.kind === 't3');
+      return post?.kind === 't3' ? this.normalizePost(post.data) : null;
+    } catch (error) {
+      console.error(`Error fetching Reddit post ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch post: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the text of a self post
+   */
+  async getPostContent(id: string): Promise<ItemContent | null> {
+    try {
+      const [postListing] = await this.getCommentListings(id);
+      const post = postListing.data.children[0];
+      return post?.kind === 't3' && post.data.selftext_html
+        ? { format: 'html', body: sanitizeHtml(post.data.selftext_html) }
+        : null;
+    } catch (error) {
+      console.error(`Error fetching Reddit post text ${id}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch post text: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the comment tree of a post, as far as Reddit includes it in one response
+   */
+  async getCommentThread(postId: string): Promise<CommentThread> {
+    try {
+      const [, commentListing] = await this.getCommentListings(postId);
+
+      // Flatten the nested replies, keeping each comment's reply IDs
+      const comments: NewsComment[] = [];
+      const collect = (things: RedditThing[], parentId?: string): string[] =>
+        things.flatMap(thing => {
+          if (thing.kind !== 't1') return [];
+          const comment = this.normalizeComment(thing.data, parentId);
+          comments.push(comment);
+          if (thing.data.replies) {
+            comment.replyIds = collect(thing.data.replies.data.children, comment.id);
+          }
+          return [comment.id];
+        });
+      const rootIds = collect(commentListing?.data.children ?? []);
+
+      return {
+        itemId: postId,
+        source: 'reddit',
+        rootIds,
+        comments,
+      };
+    } catch (error) {
+      console.error(`Error fetching Reddit comments for post ${postId}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to fetch comments: ${error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get the post and comment listings Reddit returns for a post's comments page
+   */
+  private getCommentListings(postId: string) {
+    return this.get<[RedditListing<RedditThing>, RedditListing<RedditThing>]>(
+      `comments/${encodeURIComponent(postId)}.json`,
+      { raw_json: '1' }
+    );
+  }
+
+  /**
+   * Normalize a Reddit comment to a common format
+   */
+  private normalizeComment(comment: RedditComment, parentId?: string): NewsComment {
+    const deleted = comment.author === '[deleted]';
+    return {
+      id: comment.id,
+      parentId,
+      author: comment.author,
+      text: deleted ? '' : sanitizeHtml(comment.body_html),
+      timestamp: comment.created_utc,
+      deleted,
+      replyIds: [],
+    };
+  }
+
+  /**
+   * Normalize a Reddit post to a common format
+   */
+  private normalizePost(post: RedditPost): NormalizedRedditPost {
+    const text = post.selftext.trim();
+    const tags = [post.subreddit.toLowerCase()];
+    if (post.link_flair_text) {
+      tags.push(post.link_flair_text.toLowerCase());
+    }
+
+    return {
+      id: post.id,
+      title: post.title,
+      // Self posts link to their own discussion
+      url: post.is_self ? `${ORIGIN}${post.permalink}` : post.url,
+      description: text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text,
+      author: post.author,
+      subreddit: post.subreddit,
+      timestamp: post.created_utc,
+      points: post.score,
+      commentCount: post.num_comments,
+      flair: post.link_flair_text,
+      tags: Array.from(new Set(tags)),
+      source: 'reddit',
+    };
+  }
+}
+
+// Export a singleton instance
+export const redditClient = new RedditClient();
@@ -0,0 +1,371 @@
+import { BaseApiClient, ApiError, RequestOptions } from './base-client';
+import type { ItemContent, SourceId } from './index';
+import { getChild, getChildren, getText, parseXml, sanitizeHtml, stripHtml, XmlElement } from '../utils';
+
+/**
+ * A feed URL added as a source
+ */
+export interface RssFeed {
+  id: SourceId;
+  name: string;
+  url: string;
+}
+
+export interface NormalizedFeedItem {
+  id: string;
+  title: string;
+  url?: string;
+  author: string;
+  timestamp: number;
+  description: string;
+  content?: string; // Full HTML body, when the feed includes one
+  tags: string[];
+  source: SourceId;
+}
+
+// An entry as read from any of the supported formats, before normalization
+interface FeedEntry {
+  guid?: string;
+  title: string;
+  link?: string;
+  author?: string;
+  published?: string;
+  summary?: string;
+  content?: string;
+  categories: string[];
+}
+
+interface ParsedFeed {
+  title: string;
+  entries: FeedEntry[];
+}
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  tags?: string[];
+}
+
+interface JsonFeed {
+  version?: string;
+  title?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  items?: JsonFeedItem[];
+}
+
+const RSS_FEED_ID_PREFIX = 'rss-';
+const SUMMARY_LENGTH = 300;
+
+/**
+ * Check that a host name only resolves to public addresses
+ */
+export type HostCheck = (hostname: string) => Promise<boolean>;
+
+// Held on globalThis because Next.js bundles instrumentation and route
+// handlers separately, each with its own copy of this module
+const globalHostCheck = globalThis as typeof globalThis & {
+  __hackerhomeFeedHostCheck?: HostCheck;
+};
+
+/**
+ * Install the check feed hosts must pass before they are fetched. It needs
+ * DNS, so the server installs it from src/instrumentation.ts; without one,
+ * feeds are not fetched at all.
+ */
+export function setFeedHostCheck(check: HostCheck): void {
+  globalHostCheck.__hackerhomeFeedHostCheck = check;
+}
+
+// Feeds are fetched by the server, so they may not point back into its own network.
+// This catches obvious cases as the URL is entered; host names that resolve to
+// private addresses are caught by the host check when the feed is fetched.
+const PRIVATE_HOSTS = [
+  /^localhost$/,
+  /\.(localhost|local|internal)$/,
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+];
+
+/**
+ * Check a feed URL, returning what is wrong with it or null if it can be fetched
+ */
+export function validateFeedUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return 'Enter the full feed URL, starting with https://';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Only http and https feeds are supported';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Feed URLs cannot contain credentials';
+  }
+  const host = parsed.hostname.toLowerCase();
+  // IPv6 literals are bracketed; none are allowed rather than listing private ranges
+  if (host.startsWith('[') || PRIVATE_HOSTS.some(pattern => pattern.test(host))) {
+    return 'Feeds on local or private networks are not supported';
+  }
+  return null;
+}
+
+/**
+ * Get the source ID of a feed URL. The ID encodes the URL, so the server can
+ * fetch a feed knowing only its ID.
+ */
+export function getRssFeedId(url: string): SourceId {
+  const encoded = btoa(new URL(url.trim()).href)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return RSS_FEED_ID_PREFIX + encoded;
+}
+
+/**
+ * Check whether a source ID belongs to a feed URL
+ */
+export function isRssFeedId(id: SourceId): boolean {
+  return id.startsWith(RSS_FEED_ID_PREFIX);
+}
+
+function getHostName(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Create a feed definition, named after its host unless a name is given
+ */
+export function createRssFeed(url: string, name?: string): RssFeed {
+  const href = new URL(url.trim()).href;
+  return { id: getRssFeedId(href), name: name?.trim() || getHostName(href), url: href };
+}
+
+/**
+ * Recover a feed definition from its source ID, or null if the ID is not a valid feed
+ */
+export function getRssFeedFromId(id: SourceId): RssFeed | null {
+  if (!isRssFeedId(id)) return null;
+  try {
+    const url = atob(id.slice(RSS_FEED_ID_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+    if (validateFeedUrl(url) || getRssFeedId(url) !== id) return null;
+    return createRssFeed(url);
+  } catch {
+    return null;
+  }
+}
+
+// FNV-1a, to turn arbitrary GUIDs into short, URL-safe item IDs
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function parseRss(root: XmlElement): ParsedFeed {
+  const channel = getChild(root, 'channel');
+  // RSS 1.0 (RDF) lists items next to the channel rather than inside it
+  const items = [
+    ...(channel ? getChildren(channel, 'item') : []),
+    ...getChildren(root, 'item'),
+  ];
+
+  return {
+    title: channel ? getText(getChild(channel, 'title')) : '',
+    entries: items.map(item => {
+      // RSS authors are e-mail addresses, usually followed by the name in parentheses
+      const author = getText(getChild(item, 'dc:creator', 'author'));
+      return {
+        guid: getText(getChild(item, 'guid')) || item.attributes['rdf:about'],
+        title: getText(getChild(item, 'title')),
+        link: getText(getChild(item, 'link')),
+        author: author.match(/\(([^)]+)\)/)?.[1] ?? author,
+        published: getText(getChild(item, 'pubDate', 'dc:date')),
+        summary: getText(getChild(item, 'description')),
+        content: getText(getChild(item, 'content:encoded')),
+        categories: [...getChildren(item, 'category'), ...getChildren(item, 'dc:subject')].map(getText),
+      };
+    }),
+  };
+}
+
+function parseAtom(feed: XmlElement): ParsedFeed {
+  const getAuthor = (element: XmlElement) => {
+    const author = getChild(element, 'author');
+    return author ? getText(getChild(author, 'name')) : '';
+  };
+  const feedAuthor = getAuthor(feed);
+
+  return {
+    title: getText(getChild(feed, 'title')),
+    entries: getChildren(feed, 'entry').map(entry => {
+      const links = getChildren(entry, 'link');
+      const link = links.find(l => !l.attributes.rel || l.attributes.rel === 'alternate') ?? links[0];
+      return {
+        guid: getText(getChild(entry, 'id')),
+        title: getText(getChild(entry, 'title')),
+        link: link?.attributes.href,
+        author: getAuthor(entry) || feedAuthor,
+        published: getText(getChild(entry, 'published', 'updated')),
+        summary: getText(getChild(entry, 'summary')),
+        content: getText(getChild(entry, 'content')),
+        categories: getChildren(entry, 'category').map(c => c.attributes.term || c.attributes.label || getText(c)),
+      };
+    }),
+  };
+}
+
+function parseJsonFeed(feed: JsonFeed): ParsedFeed {
+  const getAuthor = (item: JsonFeed | JsonFeedItem) => (item.authors?.[0] ?? item.author)?.name ?? '';
+  const feedAuthor = getAuthor(feed);
+
+  return {
+    title: feed.title ?? '',
+    entries: (feed.items ?? []).map(item => ({
+      guid: item.id !== undefined ? String(item.id) : undefined,
+      title: item.title ?? '',
+      link: item.url ?? item.external_url,
+      author: getAuthor(item) || feedAuthor,
+      published: item.date_published ?? item.date_modified,
+      summary: item.summary ?? item.content_text,
+      content: item.content_html,
+      categories: item.tags ?? [],
+    })),
+  };
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0, Atom or JSON Feed document
+ */
+export function parseFeed(body: string): ParsedFeed {
+  const trimmed = body.trim();
+  if (trimmed.startsWith('{')) {
+    const feed = JSON.parse(trimmed) as JsonFeed;
+    if (!feed.version?.includes('jsonfeed.org')) {
+      throw new Error('JSON document is not a JSON Feed');
+    }
+    return parseJsonFeed(feed);
+  }
+
+  const root = getChildren(parseXml(trimmed))[0];
+  if (root?.name === 'rss' || root?.name === 'rdf:RDF') return parseRss(root);
+  if (root?.name === 'feed') return parseAtom(root);
+  throw new Error('Document is not an RSS, Atom or JSON feed');
+}
+
+/**
+ * Client for a single RSS, Atom or JSON Feed URL
+ */
+export class RssClient extends BaseApiClient {
+  constructor(source: SourceId, url: string) {
+    super(
+      url,
+      source,
+      {
+        Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8',
+      },
+      { maxRequests: 30, windowMs: 60 * 1000 } // One document per request, so this is plenty
+    );
+  }
+
+  /**
+   * Refuse feed URLs, including redirect targets, on local or private networks
+   */
+  protected async checkUrl(url: string): Promise<void> {
+    const problem = validateFeedUrl(url);
+    if (problem) {
+      throw new ApiError(problem, 403, this.source, false);
+    }
+    const check = globalHostCheck.__hackerhomeFeedHostCheck;
+    if (!check) {
+      throw new ApiError('Feeds can only be fetched by the server', 403, this.source, false);
+    }
+    if (!(await check(new URL(url).hostname))) {
+      throw new ApiError('Feeds on local or private networks are not supported', 403, this.source, false);
+    }
+  }
+
+  /**
+   * Get the items of the feed, in the order the feed lists them
+   */
+  async getItems(limit?: number, request: RequestOptions = {}): Promise<NormalizedFeedItem[]> {
+    try {
+      const body = await this.get<string>('', {}, {}, true, 3, 'text', request);
+      const { title, entries } = parseFeed(body);
+      return entries.slice(0, limit).map(entry => this.normalizeEntry(entry, title));
+    } catch (error) {
+      console.error(`Error fetching feed ${this.baseUrl}:`, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(`Failed to read feed: ${error instanceof Error ? error.message : error}`, 0, this.source, false);
+    }
+  }
+
+  /**
+   * Get a single item of the feed by ID
+   */
+  async getItem(id: string): Promise<NormalizedFeedItem | null> {
+    const items = await this.getItems();
+    return items.find(item => item.id === id) ?? null;
+  }
+
+  /**
+   * Get the full body of an item, when the feed includes one
+   */
+  async getContent(id: string): Promise<ItemContent | null> {
+    const item = await this.getItem(id);
+    return item?.content ? { format: 'html', body: sanitizeHtml(item.content) } : null;
+  }
+
+  /**
+   * Normalize a feed entry, resolving relative links against the feed URL
+   */
+  private normalizeEntry(entry: FeedEntry, feedTitle: string): NormalizedFeedItem {
+    let url: string | undefined;
+    try {
+      url = entry.link?.trim() ? new URL(entry.link.trim(), this.baseUrl).href : undefined;
+    } catch {
+      url = undefined;
+    }
+
+    const published = entry.published ? Date.parse(entry.published.trim()) : NaN;
+    const summary = stripHtml(entry.summary || entry.content || '');
+    const tags = entry.categories.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
+    return {
+      id: hashString(entry.guid?.trim() || url || entry.title),
+      title: stripHtml(entry.title) || url || 'Untitled',
+      url,
+      author: entry.author?.trim() || stripHtml(feedTitle),
+      // Undated entries count as published when first seen
+      timestamp: Math.floor((Number.isNaN(published) ? Date.now() : published) / 1000),
+      description: summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : summary,
+      content: entry.content || undefined,
+      tags: Array.from(new Set(tags)),
+      source: this.source,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * A cached value with its freshness metadata
+ */
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number;
+  // Fresh until this time
+  expiresAt: number;
+  // May still be served stale (while revalidating) until this time
+  staleUntil?: number;
+  // Validators for conditional requests
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Hit/miss statistics for a cache store or namespace
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+/**
+ * Storage backend for cached API responses
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(prefix?: string): Promise<void>;
+  size(): Promise<number>;
+  getStats(namespace?: string): CacheStats;
+}
+
+interface StatsCounter {
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/**
+ * Check whether an entry is still within its fresh lifetime
+ */
+export function isFresh(entry: CacheEntry): boolean {
+  return Date.now() < entry.expiresAt;
+}
+
+/**
+ * Get the namespace of a cache key (the part before the first colon)
+ */
+export function getCacheNamespace(key: string): string {
+  const index = key.indexOf(':');
+  return index === -1 ? key : key.slice(0, index);
+}
+
+/**
+ * Base class for cache stores that tracks hit/miss statistics per namespace
+ */
+export abstract class BaseCacheStore implements CacheStore {
+  abstract readonly name: string;
+  protected maxEntries: number;
+  private stats = new Map<string, StatsCounter>();
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  abstract get<T>(key: string): Promise<CacheEntry<T> | null>;
+  abstract set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  abstract delete(key: string): Promise<void>;
+  abstract clear(prefix?: string): Promise<void>;
+  abstract size(): Promise<number>;
+
+  /**
+   * Get statistics for the whole store or a single namespace
+   */
+  getStats(namespace?: string): CacheStats {
+    const counters = namespace
+      ? [this.stats.get(namespace)].filter((c): c is StatsCounter => !!c)
+      : Array.from(this.stats.values());
+
+    const total = counters.reduce(
+      (acc, c) => ({
+        hits: acc.hits + c.hits,
+        misses: acc.misses + c.misses,
+        evictions: acc.evictions + c.evictions,
+      }),
+      { hits: 0, misses: 0, evictions: 0 }
+    );
+    const lookups = total.hits + total.misses;
+
+    return {
+      ...total,
+      hitRate: lookups > 0 ? total.hits / lookups : 0,
+    };
+  }
+
+  /**
+   * Check whether an entry can no longer be served, even as stale data
+   */
+  protected isExpired(entry: CacheEntry): boolean {
+    return Date.now() >= (entry.staleUntil ?? entry.expiresAt);
+  }
+
+  protected recordHit(key: string): void {
+    this.counter(key).hits++;
+  }
+
+  protected recordMiss(key: string): void {
+    this.counter(key).misses++;
+  }
+
+  protected recordEviction(key: string): void {
+    this.counter(key).evictions++;
+  }
+
+  private counter(key: string): StatsCounter {
+    const namespace = getCacheNamespace(key);
+    let counter = this.stats.get(namespace);
+    if (!counter) {
+      counter = { hits: 0, misses: 0, evictions: 0 };
+      this.stats.set(namespace, counter);
+    }
+    return counter;
+  }
+}
@@ -0,0 +1,28 @@
+// Default cache lifetime; NEXT_PUBLIC_API_CACHE_DURATION is in seconds
+const envCacheDuration = Number(process.env.NEXT_PUBLIC_API_CACHE_DURATION);
+export const DEFAULT_CACHE_TTL = envCacheDuration > 0 ? envCacheDuration * 1000 : 5 * 60 * 1000;
+
+/**
+ * Cache lifetimes per namespace (usually a source ID), in milliseconds
+ */
+export const CACHE_TTLS: Record<string, number> = {
+  hackernews: DEFAULT_CACHE_TTL,
+  devto: 10 * 60 * 1000,
+  github: 30 * 60 * 1000, // Keep GitHub responses longer to save rate limit budget
+  lobsters: 10 * 60 * 1000,
+  reddit: 15 * 60 * 1000, // Reddit's unauthenticated limit is tight
+  producthunt: 15 * 60 * 1000,
+};
+
+/**
+ * Get the cache lifetime for a namespace
+ */
+export function getCacheTtl(namespace: string): number {
+  return CACHE_TTLS[namespace] ?? DEFAULT_CACHE_TTL;
+}
+
+/**
+ * How long past expiry an entry is kept: aggregated feeds are served stale
+ * while they are rebuilt, API responses only keep their validators
+ */
+export const STALE_WHILE_REVALIDATE = 24 * 60 * 60 * 1000;
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaseCacheStore, CacheEntry } from './cache-store';
+
+// The key is stored beside the entry so the index can be rebuilt from disk
+interface StoredEntry {
+  key: string;
+  entry: CacheEntry;
+}
+
+/**
+ * Server cache store that keeps one JSON file per entry, so cached
+ * responses survive server restarts. Only import this from server code.
+ */
+export class FileCacheStore extends BaseCacheStore {
+  readonly name = 'file';
+  private directory: string;
+  // Recency index of key -> file name, oldest first; loaded lazily from disk
+  private index: Map<string, string> | null = null;
+  private indexPromise: Promise<Map<string, string>> | null = null;
+
+  constructor(
+    directory: string = path.join(os.tmpdir(), 'hackerhome-cache'),
+    maxEntries: number = 5000
+  ) {
+    super(maxEntries);
+    this.directory = directory;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const index = await this.loadIndex();
+    const file = index.get(key);
+    const stored = file ? await this.readFile(file) : null;
+
+    if (!stored || this.isExpired(stored.entry)) {
+      if (file) await this.delete(key);
+      this.recordMiss(key);
+      return null;
+    }
+
+    // Move to the most recently used position
+    index.delete(key);
+    index.set(key, file as string);
+    this.recordHit(key);
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const index = await this.loadIndex();
+    const file = this.fileNameFor(key);
+    const stored: StoredEntry = { key, entry };
+
+    await fs.writeFile(path.join(this.directory, file), JSON.stringify(stored), 'utf8');
+    index.delete(key);
+    index.set(key, file);
+
+    while (index.size > this.maxEntries) {
+      const [oldestKey, oldestFile] = index.entries().next().value as [string, string];
+      index.delete(oldestKey);
+      await this.removeFile(oldestFile);
+      this.recordEviction(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const index = await this.loadIndex();
+    const file = index.get(key);
+    if (!file) return;
+
+    index.delete(key);
+    await this.removeFile(file);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    const index = await this.loadIndex();
+
+    for (const [key, file] of Array.from(index.entries())) {
+      if (!prefix || key.startsWith(prefix)) {
+        index.delete(key);
+        await this.removeFile(file);
+      }
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.loadIndex()).size;
+  }
+
+  private fileNameFor(key: string): string {
+    return `${createHash('sha1').update(key).digest('hex')}.json`;
+  }
+
+  private async readFile(file: string): Promise<StoredEntry | null> {
+    try {
+      const contents = await fs.readFile(path.join(this.directory, file), 'utf8');
+      return JSON.parse(contents) as StoredEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async removeFile(file: string): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.directory, file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[cache] Failed to remove ${file}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Build the recency index from the files on disk, oldest modification first
+   */
+  private loadIndex(): Promise<Map<string, string>> {
+    if (this.index) return Promise.resolve(this.index);
+
+    if (!this.indexPromise) {
+      this.indexPromise = (async () => {
+        await fs.mkdir(this.directory, { recursive: true });
+        const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+
+        const found: Array<{ key: string; file: string; mtime: number }> = [];
+        for (const file of files) {
+          const stored = await this.readFile(file);
+          if (!stored) continue;
+          const { mtimeMs } = await fs.stat(path.join(this.directory, file));
+          found.push({ key: stored.key, file, mtime: mtimeMs });
+        }
+
+        found.sort((a, b) => a.mtime - b.mtime);
+        this.index = new Map(found.map(({ key, file }) => [key, file]));
+        return this.index;
+      })();
+    }
+
+    return this.indexPromise;
+  }
+}
@@ -0,0 +1,35 @@
+import { CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-store';
+import { IndexedDbCacheStore } from './indexeddb-store';
+
+// Export the cache store abstraction and browser-safe backends.
+// FileCacheStore is server-only and is installed from src/instrumentation.ts.
+export * from './cache-store';
+export * from './config';
+export * from './memory-store';
+export * from './indexeddb-store';
+
+// Held on globalThis because Next.js bundles instrumentation and route
+// handlers separately, each with its own copy of this module
+const globalCache = globalThis as typeof globalThis & {
+  __hackerhomeCacheStore?: CacheStore;
+};
+
+/**
+ * Get the shared cache store, creating the default backend on first use
+ */
+export function getCacheStore(): CacheStore {
+  if (!globalCache.__hackerhomeCacheStore) {
+    globalCache.__hackerhomeCacheStore = IndexedDbCacheStore.isSupported()
+      ? new IndexedDbCacheStore()
+      : new MemoryCacheStore();
+  }
+  return globalCache.__hackerhomeCacheStore;
+}
+
+/**
+ * Replace the shared cache store
+ */
+export function setCacheStore(store: CacheStore): void {
+  globalCache.__hackerhomeCacheStore = store;
+}
@@ -0,0 +1,119 @@
+import { BaseCacheStore, CacheEntry } from './cache-store';
+import { isIndexedDbSupported, openDatabase, promisifyRequest as promisify } from '../utils/indexeddb';
+
+// Bookkeeping is stored beside the entry, since the key and recency are indexed
+interface StoredEntry {
+  key: string;
+  entry: CacheEntry;
+  lastAccessed: number;
+}
+
+const STORE_NAME = 'entries';
+
+/**
+ * Browser cache store backed by IndexedDB, so cached responses survive reloads
+ */
+export class IndexedDbCacheStore extends BaseCacheStore {
+  readonly name = 'indexeddb';
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'hackerhome-cache', maxEntries: number = 2000) {
+    super(maxEntries);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Check whether IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return isIndexedDbSupported();
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const store = await this.transaction('readwrite');
+    const stored = await promisify<StoredEntry | undefined>(store.get(key));
+
+    if (!stored || this.isExpired(stored.entry)) {
+      if (stored) store.delete(key);
+      this.recordMiss(key);
+      return null;
+    }
+
+    store.put({ ...stored, lastAccessed: Date.now() });
+    this.recordHit(key);
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const store = await this.transaction('readwrite');
+    const stored: StoredEntry = { key, entry, lastAccessed: Date.now() };
+    await promisify(store.put(stored));
+    await this.evictOverflow();
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.transaction('readwrite');
+    await promisify(store.delete(key));
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    const store = await this.transaction('readwrite');
+
+    if (!prefix) {
+      await promisify(store.clear());
+      return;
+    }
+
+    // Keys are strings, so a prefix is the range [prefix, prefix + highest char)
+    await promisify(store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  }
+
+  async size(): Promise<number> {
+    const store = await this.transaction('readonly');
+    return promisify(store.count());
+  }
+
+  /**
+   * Delete the least recently used entries above the size limit
+   */
+  private async evictOverflow(): Promise<void> {
+    const store = await this.transaction('readwrite');
+    let overflow = (await promisify(store.count())) - this.maxEntries;
+    if (overflow <= 0) return;
+
+    const cursorRequest = store.index('lastAccessed').openCursor();
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || overflow <= 0) {
+          resolve();
+          return;
+        }
+        this.recordEviction((cursor.value as StoredEntry).key);
+        cursor.delete();
+        overflow--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.dbName, 1, db => {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,62 @@
+import { BaseCacheStore, CacheEntry } from './cache-store';
+
+/**
+ * In-memory cache store with LRU eviction
+ */
+export class MemoryCacheStore extends BaseCacheStore {
+  readonly name = 'memory';
+  // Map iteration order doubles as recency order: oldest first
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(maxEntries: number = 1000) {
+    super(maxEntries);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.entries.delete(key);
+      this.recordMiss(key);
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.recordHit(key);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.recordEviction(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
@@ -1,2 +1,11 @@
 // Export all hooks
-export * from './use-news';
\ No newline at end of file
+export * from './use-news';
+export * from './use-comments';
+export * from './use-bookmarks';
+export * from './use-read-state';
+export * from './use-search-history';
+export * from './use-saved-feeds';
+export * from './use-mute-rules';
+export * from './use-settings';
+export * from './use-source-health';
+export * from './use-following';
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { bookmarkService, getBookmarkKey, Bookmark, BookmarkUpdate } from '@/lib/services/bookmark-service'
+import { NewsItem } from '@/lib/api'
+
+interface UseBookmarksResult {
+  bookmarks: Bookmark[]
+  folders: string[]
+  tags: string[]
+  isLoading: boolean
+  error: Error | null
+  isSaved: (item: NewsItem) => boolean
+  toggleBookmark: (item: NewsItem) => Promise<void>
+  updateBookmark: (key: string, update: BookmarkUpdate) => Promise<void>
+  removeBookmark: (key: string) => Promise<void>
+  exportBookmarks: () => Promise<string>
+  importBookmarks: (json: string) => Promise<number>
+}
+
+/**
+ * Custom hook for the read-later list
+ */
+export function useBookmarks(): UseBookmarksResult {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const loadBookmarks = useCallback(async () => {
+    try {
+      setBookmarks(await bookmarkService.getAll())
+      setError(null)
+    } catch (err) {
+      console.error('Error loading bookmarks:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load bookmarks'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Load once, then follow changes made by any component
+  useEffect(() => {
+    loadBookmarks()
+    return bookmarkService.subscribe(() => {
+      loadBookmarks()
+    })
+  }, [loadBookmarks])
+
+  const savedKeys = useMemo(() => new Set(bookmarks.map(b => b.key)), [bookmarks])
+
+  const folders = useMemo(() => {
+    const names = bookmarks.map(b => b.folder).filter((folder): folder is string => !!folder)
+    return Array.from(new Set(names)).sort()
+  }, [bookmarks])
+
+  const tags = useMemo(() => {
+    return Array.from(new Set(bookmarks.flatMap(b => b.tags))).sort()
+  }, [bookmarks])
+
+  const isSaved = useCallback((item: NewsItem) => {
+    return savedKeys.has(getBookmarkKey(item))
+  }, [savedKeys])
+
+  const toggleBookmark = useCallback(async (item: NewsItem) => {
+    try {
+      const key = getBookmarkKey(item)
+      if (savedKeys.has(key)) {
+        await bookmarkService.remove(key)
+      } else {
+        await bookmarkService.save(item)
+      }
+    } catch (err) {
+      console.error('Error toggling bookmark:', err);
+      setError(err instanceof Error ? err : new Error('Failed to save bookmark'))
+    }
+  }, [savedKeys])
+
+  const updateBookmark = useCallback(async (key: string, update: BookmarkUpdate) => {
+    try {
+      await bookmarkService.update(key, update)
+    } catch (err) {
+      console.error(`Error updating bookmark ${key}:`, err);
+      setError(err instanceof Error ? err : new Error('Failed to update bookmark'))
+    }
+  }, [])
+
+  const removeBookmark = useCallback(async (key: string) => {
+    try {
+      await bookmarkService.remove(key)
+    } catch (err) {
+      console.error(`Error removing bookmark ${key}:`, err);
+      setError(err instanceof Error ? err : new Error('Failed to remove bookmark'))
+    }
+  }, [])
+
+  const exportBookmarks = useCallback(() => bookmarkService.exportJson(), [])
+
+  const importBookmarks = useCallback((json: string) => bookmarkService.importJson(json), [])
+
+  return {
+    bookmarks,
+    folders,
+    tags,
+    isLoading,
+    error,
+    isSaved,
+    toggleBookmark,
+    updateBookmark,
+    removeBookmark,
+    exportBookmarks,
+    importBookmarks
+  }
+}
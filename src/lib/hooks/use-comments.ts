@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { NewsComment, feedApiClient } from '@/lib/api'
+
+// Comments fetched per "load more" at any depth, keeping bursts well inside upstream rate limits
+export const COMMENT_PAGE_SIZE = 10
+
+interface UseCommentsResult {
+  rootIds: string[]
+  comments: Record<string, NewsComment>
+  isLoading: boolean
+  error: Error | null
+  loadingIds: string[]
+  // Requested IDs that did not resolve, e.g. deleted or missing items
+  missingIds: string[]
+  loadMore: (ids: string[]) => Promise<void>
+}
+
+/**
+ * Custom hook for lazily loading an item's comment thread
+ */
+export function useComments(source: string, itemId: string | number): UseCommentsResult {
+  const [rootIds, setRootIds] = useState<string[]>([])
+  const [comments, setComments] = useState<Record<string, NewsComment>>({})
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<Error | null>(null)
+  const [loadingIds, setLoadingIds] = useState<string[]>([])
+  const [missingIds, setMissingIds] = useState<string[]>([])
+  
+  // Track what is loaded or in flight without waiting for a re-render
+  const knownIdsRef = useRef<Set<string>>(new Set())
+
+  // Load the next page of the given IDs that haven't been fetched yet
+  const loadMore = useCallback(async (ids: string[]) => {
+    const batch = ids.filter(id => !knownIdsRef.current.has(id)).slice(0, COMMENT_PAGE_SIZE)
+    if (batch.length === 0) return
+    
+    batch.forEach(id => knownIdsRef.current.add(id))
+    setLoadingIds(prev => [...prev, ...batch])
+    
+    try {
+      const loaded = await feedApiClient.getComments(source, batch)
+      setComments(prev => {
+        const next = { ...prev }
+        loaded.forEach(comment => {
+          next[comment.id] = comment
+        })
+        return next
+      })
+      // Dead IDs stay known, so they are not requested again
+      const missing = batch.filter(id => !loaded.some(comment => comment.id === id))
+      if (missing.length > 0) {
+        setMissingIds(prev => [...prev, ...missing])
+      }
+    } catch (err) {
+      console.error('Error loading comments:', err);
+      // Allow the batch to be retried
+      batch.forEach(id => knownIdsRef.current.delete(id))
+      setError(err instanceof Error ? err : new Error('Failed to load comments'))
+    } finally {
+      setLoadingIds(prev => prev.filter(id => !batch.includes(id)))
+    }
+  }, [source])
+
+  // Load the thread, then the first page of top-level comments
+  useEffect(() => {
+    let cancelled = false
+    knownIdsRef.current = new Set()
+    setIsLoading(true)
+    setError(null)
+    setComments({})
+    setMissingIds([])
+    setRootIds([])
+    
+    feedApiClient.getCommentThread(source, itemId)
+      .then(thread => {
+        if (cancelled) return
+        
+        const preloaded: Record<string, NewsComment> = {}
+        thread.comments.forEach(comment => {
+          preloaded[comment.id] = comment
+          knownIdsRef.current.add(comment.id)
+        })
+        setComments(preloaded)
+        setRootIds(thread.rootIds)
+        return loadMore(thread.rootIds)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error loading comment thread:', err);
+        setError(err instanceof Error ? err : new Error('Failed to load comments'))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [source, itemId, loadMore])
+
+  return {
+    rootIds,
+    comments,
+    isLoading,
+    error,
+    loadingIds,
+    missingIds,
+    loadMore
+  }
+}
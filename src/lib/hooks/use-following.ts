@@ -0,0 +1,49 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { followService, Follow, FollowKind } from '@/lib/services/follow-service'
+
+interface UseFollowingResult {
+  follows: Follow[]
+  isLoaded: boolean
+  follow: (kind: FollowKind, name: string) => void
+  unfollow: (kind: FollowKind, name: string) => void
+  isFollowing: (kind: FollowKind, name: string) => boolean
+}
+
+/**
+ * Custom hook for the repositories and people the user follows
+ */
+export function useFollowing(): UseFollowingResult {
+  // Follows live in localStorage with the settings, so they are only loaded after mount
+  const [follows, setFollows] = useState<Follow[]>([])
+  const [isLoaded, setIsLoaded] = useState<boolean>(false)
+
+  useEffect(() => {
+    setFollows(followService.getAll())
+    setIsLoaded(true)
+    return followService.subscribe(() => {
+      setFollows(followService.getAll())
+    })
+  }, [])
+
+  const follow = useCallback((kind: FollowKind, name: string) => {
+    followService.follow(kind, name)
+  }, [])
+
+  const unfollow = useCallback((kind: FollowKind, name: string) => {
+    followService.unfollow(kind, name)
+  }, [])
+
+  const isFollowing = useCallback((kind: FollowKind, name: string) => {
+    return follows.some(f => f.kind === kind && f.name.toLowerCase() === name.toLowerCase())
+  }, [follows])
+
+  return {
+    follows,
+    isLoaded,
+    follow,
+    unfollow,
+    isFollowing
+  }
+}
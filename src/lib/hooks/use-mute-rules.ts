@@ -0,0 +1,54 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { muteRuleService, MuteRuleInput, MuteRuleUpdate } from '@/lib/services/mute-rule-service'
+import { MuteRule } from '@/lib/services/mute-rules'
+
+interface UseMuteRulesResult {
+  rules: MuteRule[]
+  hiddenCounts: Record<string, number>
+  addRule: (input: MuteRuleInput) => void
+  updateRule: (id: string, update: MuteRuleUpdate) => void
+  removeRule: (id: string) => void
+}
+
+/**
+ * Custom hook for managing mute rules and their hidden-item counters
+ */
+export function useMuteRules(): UseMuteRulesResult {
+  // Rules live in localStorage, so they are only loaded after mount
+  const [rules, setRules] = useState<MuteRule[]>([])
+  const [hiddenCounts, setHiddenCounts] = useState<Record<string, number>>({})
+
+  useEffect(() => {
+    const load = () => {
+      const current = muteRuleService.getRules()
+      setRules(current)
+      setHiddenCounts(Object.fromEntries(
+        current.map(rule => [rule.id, muteRuleService.getHiddenCount(rule.id)])
+      ))
+    }
+    load()
+    return muteRuleService.subscribe(load)
+  }, [])
+
+  const addRule = useCallback((input: MuteRuleInput) => {
+    muteRuleService.add(input)
+  }, [])
+
+  const updateRule = useCallback((id: string, update: MuteRuleUpdate) => {
+    muteRuleService.update(id, update)
+  }, [])
+
+  const removeRule = useCallback((id: string) => {
+    muteRuleService.remove(id)
+  }, [])
+
+  return {
+    rules,
+    hiddenCounts,
+    addRule,
+    updateRule,
+    removeRule
+  }
+}
@@ -1,185 +1,72 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { newsService, NewsSource, NewsFilter } from '@/lib/services/news-service'
-import { NewsItem, ApiError } from '@/lib/api'
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react'
+import { feedStore, FeedStore, FeedState, getFeedStore } from '@/lib/services/feed-store'
+import { NewsFilter } from '@/lib/services/news-service'
 
-interface SourceError {
-  id: string;
-  message: string;
-}
-
-interface UseNewsResult {
-  news: NewsItem[]
-  sources: NewsSource[]
-  isLoading: boolean
-  error: Error | null
-  sourceErrors: SourceError[]
+interface FeedActions {
+  refresh: (filter?: NewsFilter) => Promise<void>
+  loadMore: () => Promise<void>
   updateSource: (id: string, enabled: boolean) => void
-  refreshNews: (filter?: NewsFilter) => Promise<void>
-  setRefreshInterval: (intervalMs: number | null) => void
+  setFeedType: (id: string, feedType: string) => void
+  setAutoRefresh: (enabled: boolean) => void
 }
 
 /**
- * Custom hook for accessing and managing news data
+ * Custom hook for the store of a feed: the shared main feed, or the one shared
+ * by every component with the same filter, as saved feeds have
  */
-export function useNews(initialFilter?: NewsFilter): UseNewsResult {
-  const [news, setNews] = useState<NewsItem[]>([])
-  const [sources, setSources] = useState<NewsSource[]>(newsService.getSources())
-  const [isLoading, setIsLoading] = useState<boolean>(true)
-  const [error, setError] = useState<Error | null>(null)
-  const [sourceErrors, setSourceErrors] = useState<SourceError[]>([])
-  const [refreshIntervalTime, setRefreshIntervalTime] = useState<number | null>(null)
-  const [currentFilter, setCurrentFilter] = useState<NewsFilter | undefined>(initialFilter)
-  
-  // Use refs to avoid dependency cycles
-  const intervalIdRef = useRef<NodeJS.Timeout | null>(null)
-  const isRefreshingRef = useRef<boolean>(false)
-
-  // Get the current enabled sources
-  const getEnabledSources = useCallback((): string[] => {
-    return sources.filter(s => s.enabled).map(s => s.id);
-  }, [sources]);
-
-  // Memoize the refresh function to avoid recreating it on each render
-  const refreshNews = useCallback(async (filter?: NewsFilter) => {
-    // Prevent multiple simultaneous refreshes
-    if (isRefreshingRef.current) return;
-    isRefreshingRef.current = true;
-    
-    setIsLoading(true)
-    setError(null)
-    
-    // Update current filter if provided
-    if (filter) {
-      setCurrentFilter(filter)
-    }
-    
-    // Always include the current enabled sources in the filter
-    const enabledSources = getEnabledSources();
-    const mergedFilter: NewsFilter = {
-      ...(filter || currentFilter || {}),
-      sources: enabledSources
-    };
-    
-    try {
-      console.log('Fetching news with filter:', mergedFilter);
-      const items = await newsService.getAggregatedNews(mergedFilter)
-      setNews(items)
-      
-      // Check for source-specific errors
-      const errors: SourceError[] = []
-      sources.forEach(source => {
-        try {
-          const errorMessage = newsService.getSourceError(source.id)
-          if (errorMessage) {
-            errors.push({
-              id: source.id,
-              message: errorMessage
-            })
-          }
-        } catch (err) {
-          console.error(`Error getting error for source ${source.id}:`, err);
-        }
-      })
-      setSourceErrors(errors)
-    } catch (err) {
-      console.error('Error fetching news:', err);
-      if (err instanceof ApiError) {
-        setError(err)
-      } else {
-        setError(err instanceof Error ? err : new Error('Failed to fetch news'))
-      }
-    } finally {
-      setIsLoading(false)
-      isRefreshingRef.current = false;
-    }
-  }, [currentFilter, sources, getEnabledSources])
+export function useFeedStore(filter?: NewsFilter): FeedStore {
+  const [store] = useState(() => getFeedStore(filter))
+  return store
+}
 
-  const updateSource = useCallback((id: string, enabled: boolean) => {
-    console.log(`Toggling source ${id} to ${enabled}`);
-    
-    // Update our local state first
-    setSources(prev => {
-      const newSources = prev.map(source => 
-        source.id === id ? { ...source, enabled } : source
-      );
-      
-      // Then update the service
-      try {
-        newsService.updateSource(id, enabled);
-      } catch (err) {
-        console.error(`Error updating source ${id}:`, err);
-      }
-      
-      return newSources;
-    });
-  }, []);
+/**
+ * Custom hook for reading part of a feed's state. The component only re-renders
+ * when the selected value changes, so select existing values, not new objects.
+ */
+export function useFeedState<T>(selector: (state: FeedState) => T, store: FeedStore = feedStore): T {
+  // Keeps the feed loaded and refreshing while any component reads it
+  useEffect(() => store.connect(), [store])
 
-  // Set up or clear the refresh interval
-  const setRefreshInterval = useCallback((intervalMs: number | null) => {
-    try {
-      // Clear existing interval if any
-      if (intervalIdRef.current) {
-        clearInterval(intervalIdRef.current)
-        intervalIdRef.current = null
-      }
-      
-      // Set new interval if requested
-      if (intervalMs && intervalMs > 0) {
-        setRefreshIntervalTime(intervalMs)
-        const id = setInterval(() => {
-          refreshNews()
-        }, intervalMs)
-        intervalIdRef.current = id
-      } else {
-        setRefreshIntervalTime(null)
-      }
-    } catch (err) {
-      console.error('Error setting refresh interval:', err);
-    }
-  }, [refreshNews])
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store])
+  return useSyncExternalStore(
+    subscribe,
+    () => selector(store.getState()),
+    () => selector(store.getInitialState())
+  )
+}
 
-  // Initial data fetch
-  useEffect(() => {
-    refreshNews(initialFilter)
-    // We intentionally only want to run this on mount
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+/**
+ * Custom hook for the loaded items of a feed
+ */
+export function useNewsItems(store: FeedStore = feedStore) {
+  return useFeedState(state => state.news, store)
+}
 
-  // Refresh when sources change
-  useEffect(() => {
-    const enabledSourceIds = getEnabledSources();
-    console.log('Sources changed, enabled sources:', enabledSourceIds);
-    
-    // Only refresh if we're not already refreshing
-    if (!isRefreshingRef.current) {
-      refreshNews();
-    }
-  }, [sources, refreshNews, getEnabledSources]);
+/**
+ * Custom hook for every source with its settings, in the chosen order
+ */
+export function useNewsSources(store: FeedStore = feedStore) {
+  return useFeedState(state => state.sources, store)
+}
 
-  // Clean up interval on unmount
-  useEffect(() => {
-    return () => {
-      try {
-        if (intervalIdRef.current) {
-          clearInterval(intervalIdRef.current)
-          intervalIdRef.current = null
-        }
-      } catch (err) {
-        console.error('Error cleaning up interval:', err);
-      }
-    }
-  }, [])
+/**
+ * Custom hook for the sources that failed in the last fetch
+ */
+export function useSourceErrors(store: FeedStore = feedStore) {
+  return useFeedState(state => state.sourceErrors, store)
+}
 
-  return {
-    news,
-    sources,
-    isLoading,
-    error,
-    sourceErrors,
-    updateSource,
-    refreshNews,
-    setRefreshInterval
-  }
-}
\ No newline at end of file
+/**
+ * Custom hook for the actions of a feed, which never change identity
+ */
+export function useFeedActions(store: FeedStore = feedStore): FeedActions {
+  return useMemo(() => ({
+    refresh: (filter?: NewsFilter) => store.refresh(filter),
+    loadMore: () => store.loadMore(),
+    updateSource: (id: string, enabled: boolean) => store.updateSource(id, enabled),
+    setFeedType: (id: string, feedType: string) => store.setFeedType(id, feedType),
+    setAutoRefresh: (enabled: boolean) => store.setAutoRefresh(enabled)
+  }), [store])
+}
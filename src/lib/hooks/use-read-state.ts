@@ -0,0 +1,65 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { readStateService } from '@/lib/services/read-state-service'
+import { NewsItem, getItemKey } from '@/lib/api'
+
+interface UseReadStateResult {
+  lastVisitAt: number | null
+  isRead: (item: NewsItem) => boolean
+  isNew: (item: NewsItem) => boolean
+  markRead: (items: NewsItem | NewsItem[]) => void
+  markUnread: (item: NewsItem) => void
+  getUnreadCounts: (items: NewsItem[]) => Record<string, number>
+}
+
+/**
+ * Custom hook for per-item read state and "new since last visit" markers
+ */
+export function useReadState(): UseReadStateResult {
+  // Read state lives in localStorage, so it is only loaded after mount
+  const [readKeys, setReadKeys] = useState<Set<string>>(() => new Set())
+  const [lastVisitAt, setLastVisitAt] = useState<number | null>(null)
+
+  useEffect(() => {
+    setReadKeys(readStateService.getReadKeys())
+    setLastVisitAt(readStateService.getLastVisitAt())
+    return readStateService.subscribe(() => {
+      setReadKeys(readStateService.getReadKeys())
+    })
+  }, [])
+
+  const isRead = useCallback((item: NewsItem) => {
+    return readKeys.has(getItemKey(item))
+  }, [readKeys])
+
+  const isNew = useCallback((item: NewsItem) => {
+    return lastVisitAt !== null && item.timestamp * 1000 > lastVisitAt && !isRead(item)
+  }, [lastVisitAt, isRead])
+
+  const getUnreadCounts = useCallback((items: NewsItem[]) => {
+    return items.reduce<Record<string, number>>((counts, item) => {
+      if (!isRead(item)) {
+        counts[item.source] = (counts[item.source] ?? 0) + 1
+      }
+      return counts
+    }, {})
+  }, [isRead])
+
+  const markRead = useCallback((items: NewsItem | NewsItem[]) => {
+    readStateService.markRead(Array.isArray(items) ? items : [items])
+  }, [])
+
+  const markUnread = useCallback((item: NewsItem) => {
+    readStateService.markUnread(item)
+  }, [])
+
+  return {
+    lastVisitAt,
+    isRead,
+    isNew,
+    markRead,
+    markUnread,
+    getUnreadCounts
+  }
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { savedFeedService, SavedFeed, SavedFeedRule, SavedFeedUpdate } from '@/lib/services/saved-feed-service'
+
+interface UseSavedFeedsResult {
+  feeds: SavedFeed[]
+  isLoaded: boolean
+  createFeed: (name: string, rules: SavedFeedRule[]) => SavedFeed
+  updateFeed: (slug: string, update: SavedFeedUpdate) => void
+  removeFeed: (slug: string) => void
+  moveFeed: (slug: string, toIndex: number) => void
+}
+
+/**
+ * Custom hook for the user's named feeds
+ */
+export function useSavedFeeds(): UseSavedFeedsResult {
+  // Feeds live in localStorage, so they are only loaded after mount
+  const [feeds, setFeeds] = useState<SavedFeed[]>([])
+  const [isLoaded, setIsLoaded] = useState<boolean>(false)
+
+  useEffect(() => {
+    setFeeds(savedFeedService.getAll())
+    setIsLoaded(true)
+    return savedFeedService.subscribe(() => {
+      setFeeds(savedFeedService.getAll())
+    })
+  }, [])
+
+  const createFeed = useCallback((name: string, rules: SavedFeedRule[]) => {
+    return savedFeedService.create(name, rules)
+  }, [])
+
+  const updateFeed = useCallback((slug: string, update: SavedFeedUpdate) => {
+    savedFeedService.update(slug, update)
+  }, [])
+
+  const removeFeed = useCallback((slug: string) => {
+    savedFeedService.remove(slug)
+  }, [])
+
+  const moveFeed = useCallback((slug: string, toIndex: number) => {
+    savedFeedService.move(slug, toIndex)
+  }, [])
+
+  return {
+    feeds,
+    isLoaded,
+    createFeed,
+    updateFeed,
+    removeFeed,
+    moveFeed
+  }
+}
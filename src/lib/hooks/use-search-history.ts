@@ -0,0 +1,69 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { searchIndexService, SearchResult, SearchIndexStats } from '@/lib/services/search-index'
+
+interface UseSearchHistoryResult {
+  results: SearchResult[]
+  stats: SearchIndexStats | null
+  isSearching: boolean
+  error: Error | null
+}
+
+// Wait for a pause in typing before querying the index
+const SEARCH_DELAY = 200
+
+/**
+ * Custom hook for searching every item the app has fetched
+ */
+export function useSearchHistory(query: string, enabled: boolean = true): UseSearchHistoryResult {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [stats, setStats] = useState<SearchIndexStats | null>(null)
+  const [isSearching, setIsSearching] = useState<boolean>(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    searchIndexService.getStats()
+      .then(setStats)
+      .catch(err => console.error('Error loading search index stats:', err))
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled || !query.trim()) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+    const timeout = setTimeout(() => {
+      searchIndexService.search(query)
+        .then(found => {
+          if (cancelled) return
+          setResults(found)
+          setError(null)
+        })
+        .catch(err => {
+          if (cancelled) return
+          console.error('Error searching history:', err);
+          setError(err instanceof Error ? err : new Error('Search failed'))
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false)
+        })
+    }, SEARCH_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, enabled])
+
+  return {
+    results,
+    stats,
+    isSearching,
+    error
+  }
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { newsService, NewsSource } from '@/lib/services/news-service'
+import { settingsService, AppSettings, SourceSettings } from '@/lib/services/settings-service'
+import { RssFeed } from '@/lib/api'
+import { sourceRegistry } from '@/lib/sources'
+
+interface UseSettingsResult {
+  settings: AppSettings
+  // Every source with its resolved settings, in the chosen order
+  sources: NewsSource[]
+  updateSettings: (update: Partial<Omit<AppSettings, 'sources'>>) => void
+  updateSourceSettings: (id: string, update: SourceSettings) => void
+  moveSource: (id: string, toIndex: number) => void
+  addRssFeed: (feed: RssFeed) => void
+  removeRssFeed: (id: string) => void
+  resetSettings: () => void
+}
+
+/**
+ * Custom hook for reading and changing user preferences
+ */
+export function useSettings(): UseSettingsResult {
+  // Defaults until mounted, matching the server render
+  const [settings, setSettings] = useState<AppSettings>(() => settingsService.get())
+  const [sources, setSources] = useState<NewsSource[]>(() => newsService.getSources())
+
+  useEffect(() => {
+    const sync = () => {
+      setSettings(settingsService.get())
+      setSources(newsService.getSources())
+    }
+    settingsService.restore()
+    sync()
+    const unsubscribeSettings = settingsService.subscribe(sync)
+    const unsubscribeRegistry = sourceRegistry.subscribe(sync)
+    return () => {
+      unsubscribeSettings()
+      unsubscribeRegistry()
+    }
+  }, [])
+
+  const updateSettings = useCallback((update: Partial<Omit<AppSettings, 'sources'>>) => {
+    settingsService.update(update)
+  }, [])
+
+  const updateSourceSettings = useCallback((id: string, update: SourceSettings) => {
+    settingsService.updateSource(id, update)
+  }, [])
+
+  const moveSource = useCallback((id: string, toIndex: number) => {
+    const order = newsService.getSources().map(source => source.id)
+    const index = order.indexOf(id)
+    const target = Math.max(0, Math.min(toIndex, order.length - 1))
+    if (index === -1 || index === target) return
+
+    order.splice(index, 1)
+    order.splice(target, 0, id)
+    settingsService.update({ sourceOrder: order })
+  }, [])
+
+  const addRssFeed = useCallback((feed: RssFeed) => {
+    settingsService.addRssFeed(feed)
+  }, [])
+
+  const removeRssFeed = useCallback((id: string) => {
+    settingsService.removeRssFeed(id)
+  }, [])
+
+  const resetSettings = useCallback(() => {
+    settingsService.reset()
+  }, [])
+
+  return {
+    settings,
+    sources,
+    updateSettings,
+    updateSourceSettings,
+    moveSource,
+    addRssFeed,
+    removeRssFeed,
+    resetSettings
+  }
+}
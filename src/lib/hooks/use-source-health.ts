@@ -0,0 +1,72 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { SourceHealth, SourceTestResult, feedApiClient } from '@/lib/api'
+import { newsService } from '@/lib/services/news-service'
+
+// Rate limit windows and cache ages move on their own, so re-read them periodically
+const HEALTH_REFRESH_INTERVAL = 30 * 1000
+
+interface UseSourceHealthResult {
+  health: Record<string, SourceHealth>
+  isLoading: boolean
+  error: Error | null
+  testResults: Record<string, SourceTestResult>
+  testingIds: string[]
+  refresh: () => Promise<void>
+  testSource: (id: string, feedType?: string, options?: Record<string, string>) => Promise<void>
+}
+
+/**
+ * Custom hook for the server-side fetch status of every source
+ */
+export function useSourceHealth(): UseSourceHealthResult {
+  const [health, setHealth] = useState<Record<string, SourceHealth>>({})
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<Error | null>(null)
+  const [testResults, setTestResults] = useState<Record<string, SourceTestResult>>({})
+  const [testingIds, setTestingIds] = useState<string[]>([])
+
+  const refresh = useCallback(async () => {
+    try {
+      const sources = await feedApiClient.getSourcesHealth(newsService.getSources().map(source => source.id))
+      setHealth(Object.fromEntries(sources.map(source => [source.id, source])))
+      setError(null)
+    } catch (err) {
+      console.error('Error loading source health:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load source health'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const testSource = useCallback(async (id: string, feedType?: string, options?: Record<string, string>) => {
+    setTestingIds(prev => [...prev, id])
+    try {
+      const result = await feedApiClient.testSource(id, feedType, options)
+      setTestResults(prev => ({ ...prev, [id]: result }))
+      setHealth(prev => ({ ...prev, [id]: result.health }))
+    } catch (err) {
+      console.error(`Error testing source ${id}:`, err);
+      setError(err instanceof Error ? err : new Error('Failed to test source'))
+    } finally {
+      setTestingIds(prev => prev.filter(testingId => testingId !== id))
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, HEALTH_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  return {
+    health,
+    isLoading,
+    error,
+    testResults,
+    testingIds,
+    refresh,
+    testSource
+  }
+}
@@ -0,0 +1,209 @@
+import { NewsItem, getItemKey } from '../api';
+import { isIndexedDbSupported, openDatabase, promisifyRequest } from '../utils/indexeddb';
+
+export interface Bookmark {
+  key: string;
+  item: NewsItem; // Snapshot taken when saved, so it survives upstream deletion
+  savedAt: number;
+  updatedAt: number;
+  folder: string | null;
+  tags: string[];
+  note: string;
+}
+
+export type BookmarkUpdate = Partial<Pick<Bookmark, 'folder' | 'tags' | 'note'>>;
+
+export interface BookmarkExport {
+  version: 1;
+  exportedAt: number;
+  bookmarks: Bookmark[];
+}
+
+type BookmarkListener = () => void;
+
+const DB_NAME = 'hackerhome-bookmarks';
+const STORE_NAME = 'bookmarks';
+
+/**
+ * Get the storage key of an item
+ */
+export function getBookmarkKey(item: Pick<NewsItem, 'source' | 'id'>): string {
+  return getItemKey(item);
+}
+
+/**
+ * Check that an imported value looks like a bookmark
+ */
+function isBookmark(value: unknown): value is Bookmark {
+  const bookmark = value as Bookmark;
+  return !!bookmark
+    && typeof bookmark.key === 'string'
+    && !!bookmark.item
+    && typeof bookmark.item.title === 'string'
+    && typeof bookmark.item.source === 'string'
+    && bookmark.item.id !== undefined
+    && typeof bookmark.savedAt === 'number';
+}
+
+/**
+ * Service for the read-later list, stored in IndexedDB
+ */
+export class BookmarkService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<BookmarkListener>();
+
+  /**
+   * Get all bookmarks, most recently saved first
+   */
+  async getAll(): Promise<Bookmark[]> {
+    if (!isIndexedDbSupported()) return [];
+    
+    const store = await this.store('readonly');
+    const bookmarks = await promisifyRequest<Bookmark[]>(store.getAll());
+    return bookmarks.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Get a single bookmark
+   */
+  async get(key: string): Promise<Bookmark | null> {
+    const store = await this.store('readonly');
+    return (await promisifyRequest<Bookmark | undefined>(store.get(key))) ?? null;
+  }
+
+  /**
+   * Save an item, refreshing the snapshot if it is already bookmarked
+   */
+  async save(item: NewsItem, fields: BookmarkUpdate = {}): Promise<Bookmark> {
+    const key = getBookmarkKey(item);
+    const existing = await this.get(key);
+    const now = Date.now();
+    const bookmark: Bookmark = {
+      key,
+      item,
+      savedAt: existing?.savedAt ?? now,
+      updatedAt: now,
+      folder: fields.folder ?? existing?.folder ?? null,
+      tags: fields.tags ?? existing?.tags ?? [],
+      note: fields.note ?? existing?.note ?? '',
+    };
+    
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.put(bookmark));
+    this.notify();
+    return bookmark;
+  }
+
+  /**
+   * Update the folder, tags or note of a bookmark
+   */
+  async update(key: string, update: BookmarkUpdate): Promise<Bookmark | null> {
+    const existing = await this.get(key);
+    if (!existing) return null;
+    
+    const bookmark: Bookmark = { ...existing, ...update, updatedAt: Date.now() };
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.put(bookmark));
+    this.notify();
+    return bookmark;
+  }
+
+  /**
+   * Remove a bookmark
+   */
+  async remove(key: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.delete(key));
+    this.notify();
+  }
+
+  /**
+   * Serialize all bookmarks as JSON
+   */
+  async exportJson(): Promise<string> {
+    const data: BookmarkExport = {
+      version: 1,
+      exportedAt: Date.now(),
+      bookmarks: await this.getAll(),
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Import bookmarks from exported JSON, keeping the newer copy of duplicates.
+   * Returns the number of bookmarks added or updated.
+   */
+  async importJson(json: string): Promise<number> {
+    let data: BookmarkExport;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Import file is not valid JSON');
+    }
+    if (!data || !Array.isArray(data.bookmarks)) {
+      throw new Error('Import file does not contain bookmarks');
+    }
+    
+    const incoming = data.bookmarks.filter(isBookmark);
+    const existing = new Map((await this.getAll()).map(bookmark => [bookmark.key, bookmark]));
+    const store = await this.store('readwrite');
+    let imported = 0;
+    
+    for (const bookmark of incoming) {
+      const current = existing.get(bookmark.key);
+      if (current && current.updatedAt >= (bookmark.updatedAt ?? bookmark.savedAt)) continue;
+      
+      store.put({
+        ...bookmark,
+        updatedAt: bookmark.updatedAt ?? bookmark.savedAt,
+        folder: bookmark.folder ?? null,
+        tags: Array.isArray(bookmark.tags) ? bookmark.tags : [],
+        note: bookmark.note ?? '',
+      });
+      imported++;
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+    });
+    this.notify();
+    return imported;
+  }
+
+  /**
+   * Subscribe to bookmark changes, returning an unsubscribe function
+   */
+  subscribe(listener: BookmarkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('BookmarkService: Listener error:', error);
+      }
+    });
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, 1, db => {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    const db = await this.dbPromise;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+// Export a singleton instance
+export const bookmarkService = new BookmarkService();
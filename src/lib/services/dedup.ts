@@ -0,0 +1,174 @@
+import { CrossPost, NewsItem, getItemKey } from '../api';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_.*|ref|ref_src|ref_url|source|fbclid|gclid|mc_cid|mc_eid|igshid|si|share)$/i;
+
+// First path segments on github.com that are not repository owners
+const GITHUB_RESERVED = new Set([
+  'about', 'collections', 'features', 'marketplace', 'orgs', 'settings',
+  'sponsors', 'topics', 'trending',
+]);
+
+// Prefixes that differ between sources for the same story
+const TITLE_PREFIX = /^(show|ask|tell|launch) hn:\s*/i;
+
+// Share of title words two items need in common to count as the same story
+const TITLE_SIMILARITY = 0.8;
+const MIN_TITLE_WORDS = 4;
+
+/**
+ * Reduce a URL to a comparable form: no scheme, "www.", fragment, trailing
+ * slash or tracking parameters. GitHub repository links are compared
+ * case-insensitively; issues, pull requests and releases keep their own path.
+ */
+export function canonicalizeUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+
+  let path = url.pathname.replace(/\/+$/, '');
+
+  if (host === 'github.com') {
+    const [owner, repo, ...rest] = path.split('/').filter(Boolean);
+    if (owner && repo && !GITHUB_RESERVED.has(owner.toLowerCase())) {
+      const repoPath = `/${owner}/${repo.replace(/\.git$/, '')}`.toLowerCase();
+      // Only the bare repository link drops its query, e.g. ?tab=readme
+      if (rest.length === 0) return `github.com${repoPath}`;
+      path = [repoPath, ...rest].join('/');
+    }
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+  return `${host}${path}${query}`;
+}
+
+/**
+ * Canonical URLs an item is known by, including those of merged cross-posts
+ */
+function getUrlKeys(item: NewsItem): string[] {
+  const urls = [item.url, item.canonicalUrl, ...(item.crossPosts ?? []).map(post => post.url)];
+  return urls
+    .map(url => url ? canonicalizeUrl(url) : null)
+    .filter((url): url is string => !!url);
+}
+
+function getTitleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .replace(TITLE_PREFIX, '')
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Jaccard similarity of two titles' word sets
+ */
+function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < MIN_TITLE_WORDS || b.size < MIN_TITLE_WORDS) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function toCrossPost(item: NewsItem): CrossPost {
+  return {
+    source: item.source,
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    points: item.points,
+    reactions: item.reactions,
+    stars: item.stars,
+    commentCount: item.commentCount,
+  };
+}
+
+/**
+ * Merge items that link to the same canonical URL, or that come from
+ * different sources with near-identical titles. The first item of each group
+ * keeps its place and lists the others as cross-posts.
+ */
+export function mergeDuplicates(items: NewsItem[]): NewsItem[] {
+  // Union-find over item indexes
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // The earlier item stays the group's primary
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const firstWithUrl = new Map<string, number>();
+  items.forEach((item, index) => {
+    getUrlKeys(item).forEach(key => {
+      const first = firstWithUrl.get(key);
+      if (first === undefined) {
+        firstWithUrl.set(key, index);
+      } else {
+        union(first, index);
+      }
+    });
+  });
+
+  const titles = items.map(item => getTitleWords(item.title));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (items[i].source !== items[j].source && titleSimilarity(titles[i], titles[j]) >= TITLE_SIMILARITY) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, NewsItem[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? [];
+    group.push(item);
+    groups.set(root, group);
+  });
+
+  const merged: NewsItem[] = [];
+  items.forEach((item, index) => {
+    if (find(index) !== index) return;
+    const group = groups.get(index)!;
+    if (group.length === 1) {
+      merged.push(item);
+      return;
+    }
+
+    const primaryKey = getItemKey(item);
+    const crossPosts = new Map<string, CrossPost>();
+    const addCrossPost = (post: CrossPost) => {
+      const key = getItemKey(post);
+      if (key !== primaryKey && !crossPosts.has(key)) crossPosts.set(key, post);
+    };
+    group.forEach(member => {
+      if (member !== item) addCrossPost(toCrossPost(member));
+      member.crossPosts?.forEach(addCrossPost);
+    });
+    merged.push({ ...item, crossPosts: Array.from(crossPosts.values()) });
+  });
+
+  return merged;
+}
@@ -0,0 +1,381 @@
+import { NewsItem, SourceError, FeedCursor, feedApiClient, getItemKey } from '../api';
+import { sourceRegistry } from '../sources';
+import { newsService, NewsSource, NewsFilter } from './news-service';
+import { mergeDuplicates } from './dedup';
+import { applyMuteRules } from './mute-rules';
+import { searchIndexService } from './search-index';
+import { muteRuleService } from './mute-rule-service';
+import { settingsService } from './settings-service';
+
+// Delay before fetching again after the server served a stale feed, doubled
+// on each try in a row
+const STALE_RETRY_MS = 3000;
+const MAX_STALE_RETRIES = 5;
+
+/**
+ * Everything components render about a feed. The state object is replaced
+ * rather than mutated, so selectors can compare its parts by reference.
+ */
+export interface FeedState {
+  news: NewsItem[];
+  sources: NewsSource[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  // Distinct items in the loaded pages that mute rules hid or dimmed
+  mutedCount: number;
+  error: Error | null;
+  sourceErrors: SourceError[];
+  autoRefresh: boolean;
+}
+
+type FeedListener = () => void;
+
+/**
+ * Store that owns a feed: its items, pagination, source toggles, auto-refresh
+ * and errors. Components read it through the selector hooks in use-news.
+ */
+export class FeedStore {
+  private state: FeedState;
+  private readonly initialState: FeedState;
+  // Filter the feed was created with; saved feeds name their own sources
+  private filter?: NewsFilter;
+  private cursor: FeedCursor | null = null;
+  // Items of the loaded pages before mute rules are applied. Rules may hold
+  // any regular expression, so they run here rather than on the server.
+  private fetched: NewsItem[] = [];
+  // Filter of the loaded first page, so later pages continue the same feed
+  private pageFilter: NewsFilter | null = null;
+  private isRefreshing = false;
+  private refreshQueued = false;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private intervalMs: number | null = null;
+  // Follow-up fetch while the server rebuilds a stale feed, and how many were made in a row
+  private staleTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private staleRetries = 0;
+  private connections = 0;
+  private unsubscribers: Array<() => void> = [];
+  private listeners = new Set<FeedListener>();
+
+  constructor(filter?: NewsFilter) {
+    this.filter = filter;
+    this.initialState = {
+      news: [],
+      sources: newsService.getSources(),
+      isLoading: true,
+      isLoadingMore: false,
+      hasMore: false,
+      mutedCount: 0,
+      error: null,
+      sourceErrors: [],
+      autoRefresh: false,
+    };
+    this.state = this.initialState;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): FeedState {
+    return this.state;
+  }
+
+  /**
+   * Get the state rendered on the server and while hydrating
+   */
+  getInitialState(): FeedState {
+    return this.initialState;
+  }
+
+  /**
+   * Subscribe to state changes, returning an unsubscribe function
+   */
+  subscribe(listener: FeedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load the feed and keep it in sync with settings and mute rules while at
+   * least one component is connected, returning a disconnect function
+   */
+  connect(): () => void {
+    this.connections++;
+    if (this.connections === 1) this.start();
+
+    let connected = true;
+    return () => {
+      if (!connected) return;
+      connected = false;
+      this.connections--;
+      if (this.connections === 0) this.stop();
+    };
+  }
+
+  /**
+   * Fetch the first page again, optionally with a new filter. A refresh asked
+   * for while one is running is done once that one finishes. A quiet refresh
+   * keeps showing the current items until the new ones arrive.
+   */
+  async refresh(filter?: NewsFilter, quiet: boolean = false): Promise<void> {
+    if (filter) {
+      this.filter = filter;
+      this.staleRetries = 0;
+    }
+    if (this.isRefreshing) {
+      this.refreshQueued = true;
+      return;
+    }
+    this.isRefreshing = true;
+    this.setState({ isLoading: !quiet, error: null });
+
+    const pageFilter = this.buildFilter();
+    try {
+      console.log('Fetching news with filter:', pageFilter);
+      const { items, errors, cursor, stale } = await feedApiClient.getFeed(pageFilter);
+      this.pageFilter = pageFilter;
+      this.cursor = cursor;
+      this.fetched = items;
+      // Keep everything ever fetched searchable after it leaves the feed
+      searchIndexService.indexItems(items);
+      this.setState({
+        ...this.applyMute(),
+        sourceErrors: errors,
+        hasMore: cursor !== null,
+      });
+      this.scheduleStaleRetry(stale === true);
+    } catch (error) {
+      console.error('Error fetching news:', error);
+      this.setState({ error: error instanceof Error ? error : new Error('Failed to fetch news') });
+    } finally {
+      this.isRefreshing = false;
+      this.setState({ isLoading: false });
+    }
+
+    if (this.refreshQueued) {
+      this.refreshQueued = false;
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Append the next page from every source that still has items
+   */
+  async loadMore(): Promise<void> {
+    const { cursor, pageFilter } = this;
+    if (!cursor || !pageFilter || this.isRefreshing || this.state.isLoadingMore) return;
+
+    this.setState({ isLoadingMore: true });
+    try {
+      const { items, errors, cursor: nextCursor } = await feedApiClient.getFeed({ ...pageFilter, cursor });
+      // A refresh replaced the feed while this page was loading
+      if (this.pageFilter !== pageFilter) return;
+
+      // Upstream lists shift between requests, so skip items already shown and
+      // merge cross-posts that arrived on different pages
+      const seen = new Set(this.fetched.map(getItemKey));
+      this.fetched = mergeDuplicates([...this.fetched, ...items.filter(item => !seen.has(getItemKey(item)))]);
+      searchIndexService.indexItems(items);
+      this.cursor = nextCursor;
+      this.setState({
+        ...this.applyMute(),
+        sourceErrors: errors,
+        hasMore: nextCursor !== null,
+      });
+    } catch (error) {
+      // Keep the cursor so the next attempt retries the same page
+      console.error('Error loading more news:', error);
+    } finally {
+      this.setState({ isLoadingMore: false });
+    }
+  }
+
+  /**
+   * Enable or disable a source; the feed is fetched again once settings change
+   */
+  updateSource(id: string, enabled: boolean): void {
+    try {
+      newsService.updateSource(id, enabled);
+    } catch (error) {
+      console.error(`Error updating source ${id}:`, error);
+    }
+  }
+
+  /**
+   * Change which list a source fetches
+   */
+  setFeedType(id: string, feedType: string): void {
+    try {
+      newsService.setFeedType(id, feedType);
+    } catch (error) {
+      console.error(`Error setting feed type for ${id}:`, error);
+    }
+  }
+
+  /**
+   * Turn auto-refresh on or off, using the interval from settings
+   */
+  setAutoRefresh(enabled: boolean): void {
+    this.setState({ autoRefresh: enabled });
+    this.schedule();
+  }
+
+  private start(): void {
+    settingsService.restore();
+
+    // Fetch again only when something that changes the response changes,
+    // not on reordering sources; mute rules only filter what is loaded
+    let fetchKey = JSON.stringify(this.buildFilter());
+    let muteKey = JSON.stringify(muteRuleService.getEnabledRules());
+    const syncSources = () => {
+      this.setState({ sources: newsService.getSources() });
+      this.schedule();
+      sync();
+    };
+    const sync = () => {
+      const nextKey = JSON.stringify(this.buildFilter());
+      if (nextKey !== fetchKey) {
+        fetchKey = nextKey;
+        this.refresh();
+      }
+    };
+
+    this.unsubscribers = [
+      sourceRegistry.subscribe(syncSources),
+      settingsService.subscribe(syncSources),
+      // Rule counters change as matches are recorded; only rule edits re-apply them
+      muteRuleService.subscribe(() => {
+        const nextKey = JSON.stringify(muteRuleService.getEnabledRules());
+        if (nextKey === muteKey) return;
+        muteKey = nextKey;
+        this.setState(this.applyMute());
+      }),
+    ];
+    this.setState({ sources: newsService.getSources() });
+    this.schedule();
+    this.refresh();
+  }
+
+  private stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.schedule();
+    this.scheduleStaleRetry(false);
+  }
+
+  /**
+   * Fetch quietly again while the server rebuilds a stale feed, backing off
+   * and giving up after a few tries in a row
+   */
+  private scheduleStaleRetry(stale: boolean): void {
+    if (this.staleTimeoutId) {
+      clearTimeout(this.staleTimeoutId);
+      this.staleTimeoutId = null;
+    }
+    if (!stale) {
+      this.staleRetries = 0;
+      return;
+    }
+    if (this.connections === 0 || this.staleRetries >= MAX_STALE_RETRIES) return;
+
+    this.staleTimeoutId = setTimeout(() => {
+      this.staleTimeoutId = null;
+      this.refresh(undefined, true);
+    }, STALE_RETRY_MS * 2 ** this.staleRetries);
+    this.staleRetries++;
+  }
+
+  /**
+   * Start, restart or clear the auto-refresh timer to match the current state
+   */
+  private schedule(): void {
+    const intervalMs = this.state.autoRefresh && this.connections > 0
+      ? settingsService.get().refreshIntervalMinutes * 60 * 1000
+      : null;
+    if (intervalMs === this.intervalMs) return;
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.intervalMs = intervalMs;
+    if (intervalMs) {
+      this.intervalId = setInterval(() => this.refresh(), intervalMs);
+    }
+  }
+
+  /**
+   * Combine the feed's own filter with the source settings
+   */
+  private buildFilter(): NewsFilter {
+    const base = this.filter ?? {};
+    const sources = newsService.getSources();
+    const feedTypes: Record<string, string> = {};
+    const limits: Record<string, number> = {};
+    const sourceOptions: Record<string, Record<string, string>> = {};
+    sources.forEach(source => {
+      if (source.feedType) feedTypes[source.id] = source.feedType;
+      limits[source.id] = source.limit;
+      if (Object.keys(source.options).length > 0) sourceOptions[source.id] = source.options;
+    });
+
+    // Use the enabled sources unless the filter names its own
+    return {
+      ...base,
+      sources: base.sources ?? sources.filter(source => source.enabled).map(source => source.id),
+      feedTypes: { ...feedTypes, ...base.feedTypes },
+      limits: { ...limits, ...base.limits },
+      sourceOptions: { ...sourceOptions, ...base.sourceOptions },
+    };
+  }
+
+  /**
+   * Hide or dim the loaded items matched by the enabled mute rules, counting
+   * what each rule matched
+   */
+  private applyMute(): Pick<FeedState, 'news' | 'mutedCount'> {
+    const { items, matches } = applyMuteRules(this.fetched, muteRuleService.getEnabledRules());
+    muteRuleService.recordMatches(matches);
+    return { news: items, mutedCount: new Set(Object.values(matches).flat()).size };
+  }
+
+  private setState(update: Partial<FeedState>): void {
+    this.state = { ...this.state, ...update };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('FeedStore: Listener error:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance for the main feed, shared by the home page and sidebar
+export const feedStore = new FeedStore();
+
+// Stores of feeds with their own filter, keyed by the filter
+const filteredStores = new Map<string, FeedStore>();
+
+/**
+ * Get the store of a feed: the main feed without a filter, otherwise one
+ * shared by everything showing that filter, e.g. a saved feed's page and its
+ * unread count in the sidebar
+ */
+export function getFeedStore(filter?: NewsFilter): FeedStore {
+  if (!filter) return feedStore;
+
+  const key = JSON.stringify(filter);
+  let store = filteredStores.get(key);
+  if (!store) {
+    store = new FeedStore(filter);
+    filteredStores.set(key, store);
+  }
+  return store;
+}
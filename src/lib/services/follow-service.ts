@@ -0,0 +1,153 @@
+import { MAX_WATCHED_REPOS } from '../api';
+import { settingsService } from './settings-service';
+
+/**
+ * What can be followed; each kind is an option of the Following source
+ */
+export type FollowKind = 'repos' | 'github' | 'hackernews' | 'devto';
+
+export interface FollowKindInfo {
+  id: FollowKind;
+  name: string;
+  placeholder: string;
+  pattern: RegExp;
+  max: number;
+}
+
+export interface Follow {
+  kind: FollowKind;
+  name: string;
+}
+
+type FollowListener = () => void;
+
+export const FOLLOWING_SOURCE_ID = 'following';
+
+// Each follow costs a request per fetch, so every list is capped
+export const FOLLOW_KINDS: FollowKindInfo[] = [
+  {
+    id: 'repos',
+    name: 'GitHub repositories',
+    placeholder: 'vercel/next.js',
+    pattern: /^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/,
+    max: MAX_WATCHED_REPOS,
+  },
+  {
+    id: 'github',
+    name: 'GitHub users and orgs',
+    placeholder: 'vercel',
+    pattern: /^[A-Za-z0-9][A-Za-z0-9-]{0,38}$/,
+    max: 10,
+  },
+  {
+    id: 'hackernews',
+    name: 'Hacker News users',
+    placeholder: 'dang',
+    pattern: /^[A-Za-z0-9_-]{2,15}$/,
+    max: 20,
+  },
+  {
+    id: 'devto',
+    name: 'DEV.to authors',
+    placeholder: 'ben',
+    pattern: /^[A-Za-z0-9_]{1,30}$/,
+    max: 20,
+  },
+];
+
+function getKindInfo(kind: FollowKind): FollowKindInfo {
+  return FOLLOW_KINDS.find(info => info.id === kind) ?? FOLLOW_KINDS[0];
+}
+
+/**
+ * Read a comma-separated list of follows of one kind, keeping valid names only
+ */
+export function parseFollowList(kind: FollowKind, value?: string): string[] {
+  const { pattern, max } = getKindInfo(kind);
+  const names = (value ?? '')
+    .split(/[\s,]+/)
+    .map(name => name.replace(/^@/, ''))
+    .filter(name => pattern.test(name));
+  return Array.from(new Set(names)).slice(0, max);
+}
+
+/**
+ * Get every follow stored in the options of the Following source
+ */
+export function getFollows(options: Record<string, string> = {}): Follow[] {
+  return FOLLOW_KINDS.flatMap(({ id }) => parseFollowList(id, options[id]).map(name => ({ kind: id, name })));
+}
+
+/**
+ * Check a name before following it, returning what is wrong or null if it can be followed
+ */
+export function validateFollow(kind: FollowKind, name: string, follows: Follow[]): string | null {
+  const info = getKindInfo(kind);
+  const trimmed = name.trim().replace(/^@/, '');
+  if (!info.pattern.test(trimmed)) {
+    return kind === 'repos' ? 'Enter a repository as owner/name' : `Enter a valid name, like ${info.placeholder}`;
+  }
+  const followed = follows.filter(follow => follow.kind === kind);
+  if (followed.some(follow => follow.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `Already following ${trimmed}`;
+  }
+  if (followed.length >= info.max) {
+    return `You can follow up to ${info.max} ${info.name}`;
+  }
+  return null;
+}
+
+/**
+ * Service for followed repositories and people. Follows are kept as the
+ * option values of the Following source, so they can also be edited with the
+ * other source settings.
+ */
+export class FollowService {
+  /**
+   * Get all follows, grouped by kind
+   */
+  getAll(): Follow[] {
+    return getFollows(settingsService.getSource(FOLLOWING_SOURCE_ID).options);
+  }
+
+  /**
+   * Check whether a name is followed; names are case-insensitive on every source
+   */
+  isFollowing(kind: FollowKind, name: string): boolean {
+    return this.getNames(kind).some(followed => followed.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Follow a name, unless it is invalid or already followed
+   */
+  follow(kind: FollowKind, name: string): void {
+    const trimmed = name.trim().replace(/^@/, '');
+    if (validateFollow(kind, trimmed, this.getAll())) return;
+    this.setNames(kind, [...this.getNames(kind), trimmed]);
+  }
+
+  /**
+   * Stop following a name
+   */
+  unfollow(kind: FollowKind, name: string): void {
+    this.setNames(kind, this.getNames(kind).filter(followed => followed.toLowerCase() !== name.toLowerCase()));
+  }
+
+  /**
+   * Subscribe to follow changes, returning an unsubscribe function
+   */
+  subscribe(listener: FollowListener): () => void {
+    return settingsService.subscribe(listener);
+  }
+
+  private getNames(kind: FollowKind): string[] {
+    return parseFollowList(kind, settingsService.getSource(FOLLOWING_SOURCE_ID).options?.[kind]);
+  }
+
+  private setNames(kind: FollowKind, names: string[]): void {
+    settingsService.updateSource(FOLLOWING_SOURCE_ID, { options: { [kind]: names.join(', ') } });
+  }
+}
+
+// Export a singleton instance
+export const followService = new FollowService();
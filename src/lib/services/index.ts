@@ -1,2 +1,15 @@
 // Export all services
-export * from './news-service';
\ No newline at end of file
+export * from './news-service';
+export * from './related-items';
+export * from './bookmark-service';
+export * from './read-state-service';
+export * from './ranking';
+export * from './dedup';
+export * from './search-query';
+export * from './search-index';
+export * from './saved-feed-service';
+export * from './mute-rules';
+export * from './mute-rule-service';
+export * from './settings-service';
+export * from './follow-service';
+export * from './feed-store';
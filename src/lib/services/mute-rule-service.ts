@@ -0,0 +1,166 @@
+import { MuteRule } from './mute-rules';
+
+export type MuteRuleInput = Pick<MuteRule, 'field' | 'pattern' | 'regex' | 'action'>;
+
+export type MuteRuleUpdate = Partial<Pick<MuteRule, 'field' | 'pattern' | 'regex' | 'action' | 'enabled'>>;
+
+interface StoredMuteRules {
+  rules: MuteRule[];
+  hidden: Record<string, string[]>; // rule ID -> keys of the items it matched
+}
+
+type MuteRuleListener = () => void;
+
+const STORAGE_KEY = 'hackerhome-mute-rules';
+
+// Matched keys remembered per rule; the counter stops growing beyond this
+const MAX_HIDDEN_KEYS = 500;
+
+/**
+ * Service for the reader's mute rules and how many items each has hidden,
+ * persisted to localStorage
+ */
+export class MuteRuleService {
+  private state: StoredMuteRules | null = null;
+  private listeners = new Set<MuteRuleListener>();
+
+  /**
+   * Get all rules, oldest first
+   */
+  getRules(): MuteRule[] {
+    return [...this.load().rules];
+  }
+
+  /**
+   * Get the rules FeedStore applies to fetched items
+   */
+  getEnabledRules(): MuteRule[] {
+    return this.load().rules.filter(rule => rule.enabled);
+  }
+
+  /**
+   * Get the number of distinct items a rule has hidden or dimmed
+   */
+  getHiddenCount(id: string): number {
+    return this.load().hidden[id]?.length ?? 0;
+  }
+
+  /**
+   * Add a rule
+   */
+  add(input: MuteRuleInput): MuteRule {
+    const now = Date.now();
+    const rule: MuteRule = {
+      ...input,
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      pattern: input.pattern.trim(),
+      enabled: true,
+      createdAt: now,
+    };
+    this.load().rules.push(rule);
+    this.save();
+    return rule;
+  }
+
+  /**
+   * Change a rule. Editing what it matches resets its counter.
+   */
+  update(id: string, update: MuteRuleUpdate): void {
+    const state = this.load();
+    const index = state.rules.findIndex(rule => rule.id === id);
+    if (index === -1) return;
+
+    const rule = state.rules[index];
+    state.rules[index] = { ...rule, ...update };
+    if (
+      (update.field !== undefined && update.field !== rule.field) ||
+      (update.pattern !== undefined && update.pattern !== rule.pattern) ||
+      (update.regex !== undefined && update.regex !== rule.regex)
+    ) {
+      delete state.hidden[id];
+    }
+    this.save();
+  }
+
+  /**
+   * Delete a rule and its counter
+   */
+  remove(id: string): void {
+    const state = this.load();
+    state.rules = state.rules.filter(rule => rule.id !== id);
+    delete state.hidden[id];
+    this.save();
+  }
+
+  /**
+   * Count the items matched in a feed response, ignoring ones already counted
+   */
+  recordMatches(matches: Record<string, string[]>): void {
+    const state = this.load();
+    let changed = false;
+
+    Object.entries(matches).forEach(([id, keys]) => {
+      if (!state.rules.some(rule => rule.id === id)) return;
+
+      const known = new Set(state.hidden[id] ?? []);
+      const added = keys.filter(key => !known.has(key));
+      if (added.length === 0) return;
+
+      state.hidden[id] = [...(state.hidden[id] ?? []), ...added].slice(-MAX_HIDDEN_KEYS);
+      changed = true;
+    });
+
+    if (changed) this.save();
+  }
+
+  /**
+   * Subscribe to rule and counter changes, returning an unsubscribe function
+   */
+  subscribe(listener: MuteRuleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): StoredMuteRules {
+    if (this.state) return this.state;
+
+    // Nothing is persisted during server rendering
+    if (typeof window === 'undefined') return { rules: [], hidden: {} };
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const stored = raw ? JSON.parse(raw) as StoredMuteRules : null;
+      this.state = {
+        rules: Array.isArray(stored?.rules) ? stored.rules : [],
+        hidden: stored?.hidden ?? {},
+      };
+    } catch (error) {
+      console.error('Error loading mute rules:', error);
+      this.state = { rules: [], hidden: {} };
+    }
+    return this.state;
+  }
+
+  private save(): void {
+    if (!this.state) return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving mute rules:', error);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('MuteRuleService: Listener error:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const muteRuleService = new MuteRuleService();
@@ -0,0 +1,157 @@
+import { NewsItem, getItemKey } from '../api';
+
+export type MuteField = 'keyword' | 'domain' | 'author' | 'language' | 'tag';
+
+// Hidden items are dropped from the feed; dimmed ones stay but fade out
+export type MuteAction = 'hide' | 'dim';
+
+export interface MuteRule {
+  id: string;
+  field: MuteField;
+  pattern: string;
+  regex: boolean;
+  action: MuteAction;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface MuteResult {
+  items: NewsItem[];
+  // Keys of the items each rule matched, by rule ID
+  matches: Record<string, string[]>;
+}
+
+/**
+ * Fields a rule can match, for rendering pickers
+ */
+export const MUTE_FIELDS: Array<{ id: MuteField; name: string; placeholder: string }> = [
+  { id: 'keyword', name: 'Keyword', placeholder: 'crypto' },
+  { id: 'domain', name: 'Domain', placeholder: 'medium.com' },
+  { id: 'author', name: 'Author', placeholder: 'username' },
+  { id: 'language', name: 'Language', placeholder: 'PHP' },
+  { id: 'tag', name: 'Tag', placeholder: 'career' },
+];
+
+type Matcher = (values: string[]) => boolean;
+
+// Patterns run in the reader's browser on every item, so keep them short and
+// free of nested repetition like (a+)+, which can backtrack for minutes
+// on a short title
+const MAX_PATTERN_LENGTH = 200;
+const NESTED_QUANTIFIER = /\([^)]*[+*}][^)]*\)\s*[+*{]/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Get the host of an item's link, without a leading "www."
+ */
+export function getItemDomain(item: Pick<NewsItem, 'url'>): string | null {
+  if (!item.url) return null;
+  try {
+    return new URL(item.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe what is wrong with a rule's pattern, or null when it is usable
+ */
+export function validateMuteRule(rule: Pick<MuteRule, 'pattern' | 'regex'>): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  if (rule.pattern.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (!rule.regex) return null;
+  if (NESTED_QUANTIFIER.test(rule.pattern)) return 'Nested repetition like (a+)+ is not supported';
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+/**
+ * Get the values of an item a field looks at
+ */
+function getFieldValues(item: NewsItem, field: MuteField): string[] {
+  switch (field) {
+    case 'keyword':
+      return [item.title, item.description ?? ''];
+    case 'domain': {
+      const domain = getItemDomain(item);
+      return domain ? [domain] : [];
+    }
+    case 'author':
+      return [item.author];
+    case 'language':
+      return item.language ? [item.language] : [];
+    case 'tag':
+      return item.tags ?? [];
+  }
+}
+
+/**
+ * Build the matcher of a rule, or null when its pattern is unusable
+ */
+function compileRule(rule: MuteRule): Matcher | null {
+  if (validateMuteRule(rule)) return null;
+
+  if (rule.regex) {
+    const pattern = new RegExp(rule.pattern, 'i');
+    return values => values.some(value => pattern.test(value));
+  }
+
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.field) {
+    case 'keyword': {
+      // Whole words only, so muting "rust" leaves "trust" alone
+      const word = new RegExp(`(^|\\W)${escapeRegExp(pattern)}($|\\W)`, 'i');
+      return values => values.some(value => word.test(value));
+    }
+    case 'domain': {
+      // Subdomains are muted along with their parent domain
+      const domain = pattern.replace(/^www\./, '');
+      return values => values.some(value => value === domain || value.endsWith(`.${domain}`));
+    }
+    case 'tag': {
+      const tag = pattern.replace(/^#/, '');
+      return values => values.some(value => value.toLowerCase() === tag);
+    }
+    default:
+      return values => values.some(value => value.toLowerCase() === pattern);
+  }
+}
+
+/**
+ * Drop or dim the items matched by the enabled rules. Dimmed items are copied
+ * with `mutedBy` set, so shared (cached) items are never modified.
+ */
+export function applyMuteRules(items: NewsItem[], rules: MuteRule[]): MuteResult {
+  const compiled = rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ rule, matcher: compileRule(rule) }))
+    .filter((entry): entry is { rule: MuteRule; matcher: Matcher } => entry.matcher !== null);
+  const matches: Record<string, string[]> = {};
+  if (compiled.length === 0) return { items, matches };
+
+  const visible: NewsItem[] = [];
+  items.forEach(item => {
+    const matched = compiled.filter(({ rule, matcher }) => matcher(getFieldValues(item, rule.field)));
+    if (matched.length === 0) {
+      visible.push(item);
+      return;
+    }
+
+    const key = getItemKey(item);
+    matched.forEach(({ rule }) => {
+      matches[rule.id] = [...(matches[rule.id] ?? []), key];
+    });
+    if (matched.every(({ rule }) => rule.action === 'dim')) {
+      visible.push({ ...item, mutedBy: matched.map(({ rule }) => rule.id) });
+    }
+  });
+
+  return { items: visible, matches };
+}
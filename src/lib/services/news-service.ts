@@ -1,65 +1,93 @@
-import { 
-  hackerNewsClient, 
-  devToClient, 
-  githubClient,
+import {
   NewsItem,
-  NormalizedHackerNewsItem,
-  NormalizedDevToArticle,
-  NormalizedGitHubRepository,
+  NewsComment,
+  CommentThread,
+  ItemDetail,
+  SourceError,
+  SourceHealth,
+  SourceTestResult,
+  FeedCursor,
   ApiError
 } from '../api';
+import { sourceRegistry, SourceAdapter, SourceFeedType, SourceFetchOptions } from '../sources';
+import {
+  getCacheStore,
+  getCacheTtl,
+  isFresh,
+  CacheEntry,
+  STALE_WHILE_REVALIDATE
+} from '../cache';
+import { findRelatedItems } from './related-items';
+import { rankItems, SortOrder } from './ranking';
+import { mergeDuplicates } from './dedup';
+import { matchesQuery, parseQuery } from './search-query';
+import { settingsService, clampItemLimit, orderById, DEFAULT_ITEM_LIMIT } from './settings-service';
 
 export interface NewsSource {
   id: string;
   name: string;
   enabled: boolean;
+  feedType?: string;
+  feedTypes?: SourceFeedType[];
+  limit: number;
+  // Values of the adapter's options, with defaults filled in
+  options: Record<string, string>;
 }
 
 export interface NewsFilter {
   sources?: string[];
   search?: string;
   tags?: string[];
+  // Feed type per source ID, for sources that offer several lists
+  feedTypes?: Record<string, string>;
+  // Items fetched per page, by source ID
+  limits?: Record<string, number>;
+  // Adapter option values, by source ID
+  sourceOptions?: Record<string, Record<string, string>>;
+  // Defaults to newest first
+  sort?: SortOrder;
 }
 
-interface CacheEntry {
-  data: NewsItem[];
-  timestamp: number;
+export interface FeedPage {
+  items: NewsItem[];
+  // Cursor for the following page, or null when every source is exhausted
+  cursor: FeedCursor | null;
+  // Served from an expired cache entry while a fresh page is being built
+  stale?: boolean;
+}
+
+// Items requested by a test fetch; enough to prove the source works without spending its quota
+const TEST_FETCH_LIMIT = 5;
+
+interface SourcePageResult {
+  source: string;
+  items: NewsItem[];
+  nextCursor: string | null;
 }
 
 /**
  * Service for aggregating news from multiple sources
  */
 export class NewsService {
-  private sources: NewsSource[] = [
-    { id: 'hackernews', name: 'Hacker News', enabled: true },
-    { id: 'devto', name: 'DEV.to', enabled: true },
-    { id: 'github', name: 'GitHub', enabled: true },
-  ];
-  
-  // Use a simple in-memory cache
-  private cache: Map<string, CacheEntry> = new Map();
-  private cacheDuration: number = 5 * 60 * 1000; // 5 minutes in milliseconds
   private sourceErrors: Map<string, { message: string; timestamp: number }> = new Map();
-  private cacheCleanupInterval: NodeJS.Timeout | null = null;
-
-  constructor() {
-    // Set up periodic cache cleanup if in browser environment
-    if (typeof window !== 'undefined' && typeof window.setTimeout === 'function') {
-      try {
-        this.cacheCleanupInterval = setInterval(() => {
-          this.clearExpiredCache();
-        }, this.cacheDuration);
-      } catch (error) {
-        console.error('Failed to set up cache cleanup interval:', error);
-      }
-    }
-  }
+  // When each source last returned items
+  private lastFetched: Map<string, number> = new Map();
+  private revalidating: Map<string, Promise<void>> = new Map();
 
   /**
-   * Get available news sources
+   * Get available news sources in the order chosen in settings
    */
   getSources(): NewsSource[] {
-    return [...this.sources];
+    const { sourceOrder, sources } = settingsService.get();
+    return orderById(sourceRegistry.getAll(), sourceOrder).map(adapter => ({
+      id: adapter.id,
+      name: adapter.name,
+      enabled: sources[adapter.id]?.enabled ?? adapter.enabledByDefault ?? true,
+      feedType: this.resolveFeedType(adapter, sources[adapter.id]?.feedType),
+      feedTypes: adapter.feedTypes,
+      limit: clampItemLimit(sources[adapter.id]?.limit ?? DEFAULT_ITEM_LIMIT),
+      options: this.resolveOptions(adapter, sources[adapter.id]?.options),
+    }));
   }
 
   /**
@@ -67,9 +95,18 @@ export class NewsService {
    */
   updateSource(id: string, enabled: boolean): void {
     console.log(`NewsService: Updating source ${id} to ${enabled}`);
-    this.sources = this.sources.map(source => 
-      source.id === id ? { ...source, enabled } : source
-    );
+    settingsService.updateSource(id, { enabled });
+    
+    // Clear cache when sources change
+    this.clearCache();
+  }
+
+  /**
+   * Update which feed type a source fetches
+   */
+  setFeedType(id: string, feedType: string): void {
+    console.log(`NewsService: Setting feed type of ${id} to ${feedType}`);
+    settingsService.updateSource(id, { feedType });
     
     // Clear cache when sources change
     this.clearCache();
@@ -91,60 +128,342 @@ export class NewsService {
     return error.message;
   }
 
+  /**
+   * Get errors for the given sources
+   */
+  getSourceErrors(ids: string[]): SourceError[] {
+    const errors: SourceError[] = [];
+    ids.forEach(id => {
+      const message = this.getSourceError(id);
+      if (message) {
+        errors.push({ id, message });
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Get the fetch status, rate limit and cache age of a source
+   */
+  getSourceHealth(id: string): SourceHealth {
+    const adapter = sourceRegistry.get(id);
+    if (!adapter) {
+      throw new ApiError(`Unknown source: ${id}`, 404, id, false);
+    }
+    
+    return {
+      id,
+      name: adapter.name,
+      lastFetchedAt: this.lastFetched.get(id) ?? null,
+      error: this.getSourceError(id),
+      rateLimit: adapter.client?.getRateLimitState() ?? null,
+      cacheUpdatedAt: adapter.client?.getCacheUpdatedAt() ?? null,
+    };
+  }
+
+  /**
+   * Get the health of the given sources, or of every registered source.
+   * Unknown IDs are skipped.
+   */
+  getSourcesHealth(ids?: string[]): SourceHealth[] {
+    return (ids ?? sourceRegistry.getAll().map(adapter => adapter.id))
+      .filter(id => sourceRegistry.has(id))
+      .map(id => this.getSourceHealth(id));
+  }
+
+  /**
+   * Fetch a few items straight from a source with the reader's options,
+   * without reading its cached responses, and record the outcome like a
+   * regular fetch
+   */
+  async testSource(id: string, feedType?: string, options?: Record<string, string>): Promise<SourceTestResult> {
+    const adapter = sourceRegistry.get(id);
+    if (!adapter) {
+      throw new ApiError(`Unknown source: ${id}`, 404, id, false);
+    }
+    
+    const startedAt = Date.now();
+    try {
+      const { items } = await this.fetchFromSource(adapter, {
+        limit: TEST_FETCH_LIMIT,
+        feedType: this.resolveFeedType(adapter, feedType),
+        options: this.resolveOptions(adapter, options),
+        skipCache: true,
+      });
+      this.lastFetched.set(id, Date.now());
+      this.sourceErrors.delete(id);
+      return {
+        status: items.length > 0 ? 'ok' : 'empty',
+        itemCount: items.length,
+        durationMs: Date.now() - startedAt,
+        health: this.getSourceHealth(id),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.sourceErrors.set(id, { message, timestamp: Date.now() });
+      return {
+        status: 'failed',
+        itemCount: 0,
+        durationMs: Date.now() - startedAt,
+        error: message,
+        health: this.getSourceHealth(id),
+      };
+    }
+  }
+
+  /**
+   * Get news from a single source, throwing if the source failed
+   */
+  async getSourceNews(id: string, feedType?: string): Promise<NewsItem[]> {
+    if (!sourceRegistry.has(id)) {
+      throw new ApiError(`Unknown source: ${id}`, 404, id, false);
+    }
+    
+    const items = await this.getAggregatedNews({
+      sources: [id],
+      feedTypes: feedType ? { [id]: feedType } : undefined,
+    });
+    const errorMessage = this.getSourceError(id);
+    if (items.length === 0 && errorMessage) {
+      throw new ApiError(errorMessage, 502, id, true);
+    }
+    
+    return items;
+  }
+
+  /**
+   * Get a single normalized item from a source
+   */
+  async getItem(sourceId: string, id: string): Promise<NewsItem | null> {
+    const adapter = sourceRegistry.get(sourceId);
+    if (!adapter) {
+      throw new ApiError(`Unknown source: ${sourceId}`, 404, sourceId, false);
+    }
+    if (!adapter.getItem) {
+      throw new ApiError(`${adapter.name} does not support item lookup`, 400, sourceId, false);
+    }
+    
+    const item = await adapter.getItem(id);
+    return item ? adapter.normalize(item) : null;
+  }
+
+  /**
+   * Get an item with its full content and related items from the current feed.
+   * Related items only come from a feed that is already cached, so a cold
+   * cache never holds up the item on a fetch of every source.
+   */
+  async getItemDetail(sourceId: string, id: string): Promise<ItemDetail | null> {
+    const item = await this.getItem(sourceId, id);
+    if (!item) return null;
+    
+    const adapter = sourceRegistry.get(sourceId);
+    const [content, related] = await Promise.all([
+      adapter?.getContent
+        ? adapter.getContent(id).catch(error => {
+            // The item is still worth showing without its body
+            console.error(`Error fetching content for ${sourceId}/${id}:`, error);
+            return null;
+          })
+        : Promise.resolve(null),
+      this.getCachedNews()
+        .then(candidates => findRelatedItems(item, candidates))
+        .catch(error => {
+          console.error('Error finding related items:', error);
+          return [];
+        }),
+    ]);
+    
+    return { item, content, related };
+  }
+
+  /**
+   * Get the comment thread of an item
+   */
+  async getCommentThread(sourceId: string, itemId: string): Promise<CommentThread> {
+    const adapter = sourceRegistry.get(sourceId);
+    if (!adapter) {
+      throw new ApiError(`Unknown source: ${sourceId}`, 404, sourceId, false);
+    }
+    if (!adapter.getCommentThread) {
+      throw new ApiError(`${adapter.name} does not support comments`, 400, sourceId, false);
+    }
+    
+    return adapter.getCommentThread(itemId);
+  }
+
+  /**
+   * Get comments by ID from a source that loads threads lazily
+   */
+  async getComments(sourceId: string, ids: string[]): Promise<NewsComment[]> {
+    const adapter = sourceRegistry.get(sourceId);
+    if (!adapter) {
+      throw new ApiError(`Unknown source: ${sourceId}`, 404, sourceId, false);
+    }
+    if (!adapter.getComments) {
+      throw new ApiError(`${adapter.name} does not support loading comments by ID`, 400, sourceId, false);
+    }
+    
+    return adapter.getComments(ids);
+  }
+
   /**
    * Get aggregated news from all enabled sources
    */
   async getAggregatedNews(filter?: NewsFilter): Promise<NewsItem[]> {
-    // If no sources are specified in the filter, use the enabled sources from the service
-    const enabledSources = filter?.sources || 
-      this.sources.filter(s => s.enabled).map(s => s.id);
+    const { items } = await this.getAggregatedPage(filter);
+    return items;
+  }
+
+  /**
+   * Get a page of aggregated news. Without a cursor this is the (cached) first
+   * page; with one, each source that still has items contributes its next page.
+   */
+  async getAggregatedPage(filter?: NewsFilter, cursor?: FeedCursor): Promise<FeedPage> {
+    const { enabledSources, resolved } = this.resolveFilter(filter);
     
     console.log('NewsService: Getting news with enabled sources:', enabledSources);
     
-    // If no sources are enabled, return an empty array
+    // If no sources are enabled, return an empty page
     if (enabledSources.length === 0) {
       console.log('NewsService: No sources enabled, returning empty array');
-      return [];
+      return { items: [], cursor: null };
+    }
+    
+    if (cursor) {
+      const pagedSources = enabledSources.filter(id => cursor[id] !== undefined);
+      return this.collect(pagedSources, resolved, cursor);
     }
     
     // Generate cache key based on enabled sources and filters
-    const cacheKey = this.generateCacheKey(enabledSources, filter);
+    const cacheKey = this.generateCacheKey(enabledSources, resolved);
     
-    // Check cache first
+    // Check cache first; stale results are served, and marked as such so
+    // callers can fetch again, while a fresh copy is built
     try {
-      const cachedData = this.getFromCache(cacheKey);
-      if (cachedData) {
+      const cached = await this.getFromCache(cacheKey);
+      if (cached) {
         console.log('NewsService: Returning cached data for key:', cacheKey);
-        return cachedData;
+        if (!isFresh(cached)) {
+          this.revalidate(cacheKey, enabledSources, resolved);
+          return { ...cached.data, stale: true };
+        }
+        return cached.data;
       }
     } catch (error) {
       console.error('Error accessing cache:', error);
       // Continue without cache if there's an error
     }
     
-    const promises: Array<Promise<{ source: string; items: NewsItem[] }>> = [];
+    return this.aggregate(cacheKey, enabledSources, resolved);
+  }
+
+  /**
+   * Get the items of the cached first page of the enabled sources, stale or
+   * not, without fetching anything
+   */
+  private async getCachedNews(): Promise<NewsItem[]> {
+    const { enabledSources, resolved } = this.resolveFilter();
+    if (enabledSources.length === 0) return [];
     
-    if (enabledSources.includes('hackernews')) {
-      promises.push(this.getHackerNews().then(items => ({ source: 'hackernews', items })));
-    }
+    const cached = await this.getFromCache(this.generateCacheKey(enabledSources, resolved));
+    return cached?.data.items ?? [];
+  }
+
+  /**
+   * Get the sources a filter covers and pin down the feed type, limit and
+   * options of every one of them, so they become part of the cache key
+   */
+  private resolveFilter(filter?: NewsFilter): { enabledSources: string[]; resolved: NewsFilter } {
+    // If no sources are specified in the filter, use the enabled sources from the service
+    const enabledSources = filter?.sources || 
+      this.getSources().filter(s => s.enabled).map(s => s.id);
     
-    if (enabledSources.includes('devto')) {
-      promises.push(this.getDevToArticles().then(items => ({ source: 'devto', items })));
-    }
+    return {
+      enabledSources,
+      resolved: {
+        ...filter,
+        feedTypes: this.resolveFeedTypes(enabledSources, filter?.feedTypes),
+        limits: this.resolveLimits(enabledSources, filter?.limits),
+        sourceOptions: this.resolveSourceOptions(enabledSources, filter?.sourceOptions),
+      },
+    };
+  }
+
+  /**
+   * Rebuild a stale aggregate in the background, at most once at a time per key.
+   * This is the only layer that serves stale data: API clients revalidate
+   * expired responses before returning them, so the rebuilt page is fresh.
+   */
+  private revalidate(cacheKey: string, enabledSources: string[], filter?: NewsFilter): void {
+    if (this.revalidating.has(cacheKey)) return;
+    
+    const task = this.aggregate(cacheKey, enabledSources, filter)
+      .then(() => undefined)
+      .catch(error => {
+        console.error('Error revalidating aggregated news:', error);
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey);
+      });
+    
+    this.revalidating.set(cacheKey, task);
+  }
+
+  /**
+   * Build the first page of the given sources and cache the result
+   */
+  private async aggregate(
+    cacheKey: string,
+    enabledSources: string[],
+    filter?: NewsFilter
+  ): Promise<FeedPage> {
+    const page = await this.collect(enabledSources, filter);
     
-    if (enabledSources.includes('github')) {
-      promises.push(this.getGitHubRepositories().then(items => ({ source: 'github', items })));
+    // Cache the results
+    try {
+      await this.saveToCache(cacheKey, page, this.getAggregateTtl(enabledSources));
+    } catch (error) {
+      console.error('Error saving to cache:', error);
+      // Continue without caching if there's an error
     }
     
+    return page;
+  }
+
+  /**
+   * Fetch, filter and sort one page of items from each of the given sources
+   */
+  private async collect(
+    enabledSources: string[],
+    filter?: NewsFilter,
+    cursor?: FeedCursor
+  ): Promise<FeedPage> {
+    const promises = enabledSources
+      .map(id => sourceRegistry.get(id))
+      .filter((adapter): adapter is SourceAdapter => !!adapter)
+      .map(adapter =>
+        this.fetchFromSource(adapter, {
+          limit: filter?.limits?.[adapter.id] ?? DEFAULT_ITEM_LIMIT,
+          feedType: filter?.feedTypes?.[adapter.id],
+          options: filter?.sourceOptions?.[adapter.id],
+          cursor: cursor?.[adapter.id],
+        })
+      );
+    
     // Use Promise.allSettled to handle partial failures
     const results = await Promise.allSettled(promises);
     let allItems: NewsItem[] = [];
+    const nextCursor: FeedCursor = {};
     
     results.forEach(result => {
       if (result.status === 'fulfilled') {
         allItems = [...allItems, ...result.value.items];
+        if (result.value.nextCursor !== null) {
+          nextCursor[result.value.source] = result.value.nextCursor;
+        }
         // Clear any previous errors for this source
         this.sourceErrors.delete(result.value.source);
+        this.lastFetched.set(result.value.source, Date.now());
       } else {
         // Extract source from the rejected promise if possible
         const errorMessage = result.reason?.message || 'Unknown error';
@@ -160,17 +479,10 @@ export class NewsService {
       }
     });
     
-    // Filter items to only include those from enabled sources
-    allItems = allItems.filter(item => enabledSources.includes(item.source));
-    
-    // Apply search filter if provided
+    // Apply search query if provided, e.g. `lang:rust stars:>500 -crypto`
     if (filter?.search) {
-      const searchLower = filter.search.toLowerCase();
-      allItems = allItems.filter(item => 
-        item.title.toLowerCase().includes(searchLower) || 
-        item.description?.toLowerCase().includes(searchLower) ||
-        item.content?.toLowerCase().includes(searchLower)
-      );
+      const query = parseQuery(filter.search);
+      allItems = allItems.filter(item => matchesQuery(item, query));
     }
     
     // Apply tag filter if provided
@@ -182,150 +494,142 @@ export class NewsService {
       );
     }
     
-    // Sort by timestamp (newest first)
-    const sortedItems = allItems.sort((a, b) => b.timestamp - a.timestamp);
-    
-    // Cache the results
-    try {
-      this.saveToCache(cacheKey, sortedItems);
-    } catch (error) {
-      console.error('Error saving to cache:', error);
-      // Continue without caching if there's an error
-    }
+    // Rank first so the best-placed copy of a cross-posted story becomes its card
+    const sortedItems = mergeDuplicates(rankItems(allItems, filter?.sort ?? 'newest'));
     
     console.log(`NewsService: Returning ${sortedItems.length} items for sources:`, enabledSources);
-    return sortedItems;
+    return {
+      items: sortedItems,
+      cursor: Object.keys(nextCursor).length > 0 ? nextCursor : null,
+    };
   }
 
   /**
-   * Get news from Hacker News
+   * Fetch and normalize one page of items from a single source adapter
    */
-  private async getHackerNews(): Promise<NewsItem[]> {
+  private async fetchFromSource(
+    adapter: SourceAdapter,
+    options: SourceFetchOptions
+  ): Promise<SourcePageResult> {
     try {
-      const items = await hackerNewsClient.getTopStories(30);
-      return this.normalizeHackerNewsItems(items);
+      // Sources without pagination only have a first page
+      const page = adapter.fetchPage
+        ? await adapter.fetchPage(options)
+        : { items: options.cursor ? [] : await adapter.fetch(options), nextCursor: null };
+      return {
+        source: adapter.id,
+        // Items may belong to other sources, as on the Following feed
+        items: page.items.map(item => adapter.normalize(item)),
+        nextCursor: page.nextCursor,
+      };
     } catch (error) {
-      console.error('Error fetching Hacker News:', error);
+      console.error(`Error fetching from ${adapter.name}:`, error);
       if (error instanceof ApiError) {
         throw error;
       }
-      throw new ApiError(`Failed to fetch from Hacker News: ${error}`, 0, 'hackernews', false);
+      throw new ApiError(`Failed to fetch from ${adapter.name}: ${error}`, 0, adapter.id, false);
     }
   }
 
   /**
-   * Get articles from DEV.to
+   * Get a valid feed type for a source, falling back to its default
    */
-  private async getDevToArticles(): Promise<NewsItem[]> {
-    try {
-      const articles = await devToClient.getLatestArticles(30);
-      return this.normalizeDevToArticles(articles);
-    } catch (error) {
-      console.error('Error fetching DEV.to articles:', error);
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError(`Failed to fetch from DEV.to: ${error}`, 0, 'devto', false);
+  private resolveFeedType(adapter: SourceAdapter, requested?: string): string | undefined {
+    if (!adapter.feedTypes) return undefined;
+    if (requested && adapter.feedTypes.some(type => type.id === requested)) {
+      return requested;
     }
+    return adapter.defaultFeedType ?? adapter.feedTypes[0]?.id;
   }
 
   /**
-   * Get repositories from GitHub
+   * Resolve the feed type of each source, preferring explicitly requested ones
    */
-  private async getGitHubRepositories(): Promise<NewsItem[]> {
-    try {
-      const repositories = await githubClient.getTrendingRepositories(undefined, 'daily', 30);
-      return this.normalizeGitHubRepositories(repositories);
-    } catch (error) {
-      console.error('Error fetching GitHub repositories:', error);
-      if (error instanceof ApiError) {
-        throw error;
+  private resolveFeedTypes(sources: string[], requested: Record<string, string> = {}): Record<string, string> {
+    const feedTypes: Record<string, string> = {};
+    sources.forEach(id => {
+      const adapter = sourceRegistry.get(id);
+      const feedType = adapter && this.resolveFeedType(adapter, requested[id] ?? settingsService.getSource(id).feedType);
+      if (feedType) {
+        feedTypes[id] = feedType;
       }
-      throw new ApiError(`Failed to fetch from GitHub: ${error}`, 0, 'github', false);
-    }
+    });
+    return feedTypes;
   }
 
   /**
-   * Normalize Hacker News items to the common NewsItem format
+   * Resolve the page size of each source, preferring explicitly requested ones
    */
-  private normalizeHackerNewsItems(items: NormalizedHackerNewsItem[]): NewsItem[] {
-    return items.map(item => ({
-      id: item.id,
-      title: item.title,
-      url: item.url,
-      content: item.content,
-      author: item.author,
-      timestamp: item.timestamp,
-      points: item.points,
-      commentCount: item.commentCount,
-      source: item.source,
-    }));
+  private resolveLimits(sources: string[], requested: Record<string, number> = {}): Record<string, number> {
+    const limits: Record<string, number> = {};
+    sources.forEach(id => {
+      limits[id] = clampItemLimit(requested[id] ?? settingsService.getSource(id).limit ?? DEFAULT_ITEM_LIMIT);
+    });
+    return limits;
   }
 
   /**
-   * Normalize DEV.to articles to the common NewsItem format
+   * Get the values of an adapter's declared options, falling back to their defaults
    */
-  private normalizeDevToArticles(articles: NormalizedDevToArticle[]): NewsItem[] {
-    return articles.map(article => ({
-      id: article.id,
-      title: article.title,
-      url: article.url,
-      description: article.description,
-      author: article.author,
-      authorImage: article.authorImage,
-      timestamp: article.timestamp,
-      reactions: article.reactions,
-      commentCount: article.commentCount,
-      readingTime: article.readingTime,
-      tags: article.tags,
-      coverImage: article.coverImage,
-      source: article.source,
-    }));
+  private resolveOptions(adapter: SourceAdapter, requested: Record<string, string> = {}): Record<string, string> {
+    const options: Record<string, string> = {};
+    adapter.options?.forEach(option => {
+      const value = requested[option.id];
+      const allowed = !option.choices || option.choices.some(choice => choice.id === value);
+      const resolved = value !== undefined && allowed ? value : option.defaultValue;
+      if (resolved) {
+        options[option.id] = resolved;
+      }
+    });
+    return options;
   }
 
   /**
-   * Normalize GitHub repositories to the common NewsItem format
+   * Resolve the option values of each source that declares options
    */
-  private normalizeGitHubRepositories(repositories: NormalizedGitHubRepository[]): NewsItem[] {
-    return repositories.map(repo => ({
-      id: repo.id,
-      title: repo.name,
-      url: repo.url,
-      description: repo.description || '',
-      author: repo.author,
-      authorImage: repo.authorImage,
-      authorUrl: repo.authorUrl,
-      timestamp: repo.timestamp,
-      stars: repo.stars,
-      forks: repo.forks,
-      language: repo.language,
-      tags: repo.topics,
-      source: repo.source,
-    }));
+  private resolveSourceOptions(
+    sources: string[],
+    requested: Record<string, Record<string, string>> = {}
+  ): Record<string, Record<string, string>> {
+    const sourceOptions: Record<string, Record<string, string>> = {};
+    sources.forEach(id => {
+      const adapter = sourceRegistry.get(id);
+      if (!adapter?.options) return;
+      sourceOptions[id] = this.resolveOptions(adapter, requested[id] ?? settingsService.getSource(id).options);
+    });
+    return sourceOptions;
   }
-  
+
   /**
    * Generate a cache key based on sources and filters
    */
   private generateCacheKey(sources: string[], filter?: NewsFilter): string {
-    return JSON.stringify({
+    return 'aggregate:' + JSON.stringify({
       sources: sources.sort(),
       search: filter?.search || '',
-      tags: filter?.tags?.sort() || []
+      tags: filter?.tags?.sort() || [],
+      feedTypes: Object.entries(filter?.feedTypes || {}).sort(),
+      limits: Object.entries(filter?.limits || {}).sort(),
+      sourceOptions: Object.entries(filter?.sourceOptions || {})
+        .map(([id, options]) => [id, Object.entries(options).sort()] as const)
+        .sort(),
+      sort: filter?.sort || 'newest'
     });
   }
   
   /**
-   * Get data from cache
+   * Get the cache lifetime for an aggregate, bounded by its shortest-lived source
    */
-  private getFromCache(key: string): NewsItem[] | null {
+  private getAggregateTtl(sources: string[]): number {
+    return Math.min(...sources.map(id => getCacheTtl(id)));
+  }
+  
+  /**
+   * Get data from the shared cache store
+   */
+  private async getFromCache(key: string): Promise<CacheEntry<FeedPage> | null> {
     try {
-      const cached = this.cache.get(key);
-      const now = Date.now();
-      
-      if (cached && now - cached.timestamp < this.cacheDuration) {
-        return cached.data;
-      }
+      return await getCacheStore().get<FeedPage>(key);
     } catch (error) {
       console.error('Error getting from cache:', error);
     }
@@ -334,13 +638,16 @@ export class NewsService {
   }
   
   /**
-   * Save data to cache
+   * Save data to the shared cache store
    */
-  private saveToCache(key: string, data: NewsItem[]): void {
+  private async saveToCache(key: string, data: FeedPage, ttl: number): Promise<void> {
     try {
-      this.cache.set(key, {
+      const now = Date.now();
+      await getCacheStore().set(key, {
         data,
-        timestamp: Date.now()
+        timestamp: now,
+        expiresAt: now + ttl,
+        staleUntil: now + ttl + STALE_WHILE_REVALIDATE
       });
     } catch (error) {
       console.error('Error saving to cache:', error);
@@ -348,32 +655,13 @@ export class NewsService {
   }
   
   /**
-   * Clear all cache entries
+   * Clear all aggregated feed cache entries
    */
   private clearCache(): void {
     console.log('NewsService: Clearing cache');
-    try {
-      this.cache.clear();
-    } catch (error) {
+    getCacheStore().clear('aggregate:').catch(error => {
       console.error('Error clearing cache:', error);
-    }
-  }
-  
-  /**
-   * Clear expired cache entries
-   */
-  private clearExpiredCache(): void {
-    try {
-      const now = Date.now();
-      
-      for (const [key, value] of this.cache.entries()) {
-        if (now - value.timestamp > this.cacheDuration) {
-          this.cache.delete(key);
-        }
-      }
-    } catch (error) {
-      console.error('Error clearing expired cache:', error);
-    }
+    });
   }
 }
 
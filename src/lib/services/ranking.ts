@@ -0,0 +1,112 @@
+import { NewsItem } from '../api';
+
+export type SortOrder = 'hot' | 'newest' | 'discussed' | 'top-week';
+
+export const SORT_ORDERS: Array<{ id: SortOrder; name: string }> = [
+  { id: 'hot', name: 'Hot' },
+  { id: 'newest', name: 'Newest' },
+  { id: 'discussed', name: 'Most discussed' },
+  { id: 'top-week', name: 'Top this week' },
+];
+
+// Exponent of the age penalty, as in the Hacker News ranking formula
+const GRAVITY = 1.8;
+
+const WEEK = 7 * 24 * 60 * 60; // seconds
+
+/**
+ * Check whether a value is one of the supported sort orders
+ */
+export function isSortOrder(value: unknown): value is SortOrder {
+  return SORT_ORDERS.some(order => order.id === value);
+}
+
+/**
+ * Raw engagement of an item in its source's own units (points, reactions, stars)
+ */
+function getEngagement(item: NewsItem): number {
+  return (item.points ?? 0)
+    + (item.reactions ?? 0)
+    // Trending repositories are judged by recent stars, not their total
+    + (item.starsGained ?? item.stars ?? 0)
+    // A fork is a stronger signal than a star
+    + 2 * (item.forks ?? 0);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Scale a metric per source so that a typical item of every source scores 1,
+ * making a 900-point story comparable with a 40-reaction article
+ */
+function normalizePerSource(items: NewsItem[], metric: (item: NewsItem) => number): Map<NewsItem, number> {
+  const bySource = new Map<string, NewsItem[]>();
+  items.forEach(item => {
+    const group = bySource.get(item.source) ?? [];
+    group.push(item);
+    bySource.set(item.source, group);
+  });
+
+  const scores = new Map<NewsItem, number>();
+  bySource.forEach(group => {
+    const typical = Math.max(median(group.map(metric)), 1);
+    group.forEach(item => scores.set(item, metric(item) / typical));
+  });
+  return scores;
+}
+
+/**
+ * Comparable engagement score of each item: normalized votes plus a smaller
+ * weight for normalized discussion
+ */
+function getScores(items: NewsItem[]): Map<NewsItem, number> {
+  const engagement = normalizePerSource(items, getEngagement);
+  const discussion = normalizePerSource(items, item => item.commentCount ?? 0);
+
+  const scores = new Map<NewsItem, number>();
+  items.forEach(item => {
+    scores.set(item, (engagement.get(item) ?? 0) + 0.5 * (discussion.get(item) ?? 0));
+  });
+  return scores;
+}
+
+/**
+ * Sort items by the given order. "top-week" also drops items older than a week.
+ */
+export function rankItems(
+  items: NewsItem[],
+  order: SortOrder,
+  now: number = Math.floor(Date.now() / 1000)
+): NewsItem[] {
+  switch (order) {
+    case 'newest':
+      return [...items].sort((a, b) => b.timestamp - a.timestamp);
+
+    case 'discussed': {
+      const discussion = normalizePerSource(items, item => item.commentCount ?? 0);
+      return [...items].sort((a, b) =>
+        (discussion.get(b) ?? 0) - (discussion.get(a) ?? 0) || b.timestamp - a.timestamp
+      );
+    }
+
+    case 'top-week': {
+      const recent = items.filter(item => now - item.timestamp <= WEEK);
+      const scores = getScores(recent);
+      return recent.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0));
+    }
+
+    case 'hot': {
+      const scores = getScores(items);
+      const hotness = (item: NewsItem) => {
+        const ageHours = Math.max(now - item.timestamp, 0) / 3600;
+        return (scores.get(item) ?? 0) / Math.pow(ageHours + 2, GRAVITY);
+      };
+      return [...items].sort((a, b) => hotness(b) - hotness(a));
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { NewsItem, getItemKey } from '../api';
+
+interface StoredReadState {
+  read: Record<string, number>; // item key -> time it was read
+  lastVisitAt: number | null; // when the previous visit ended
+  lastActiveAt: number;
+}
+
+type ReadStateListener = () => void;
+
+const STORAGE_KEY = 'hackerhome-read-state';
+
+// Oldest entries beyond this are forgotten so storage stays small
+const MAX_READ_ENTRIES = 5000;
+
+// Inactivity after which the next page load counts as a new visit
+const VISIT_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+// How often the visit is kept alive while the page is visible
+const ACTIVITY_INTERVAL = 60 * 1000; // 1 minute
+
+/**
+ * Service tracking which items have been read, persisted to localStorage
+ */
+export class ReadStateService {
+  private state: StoredReadState | null = null;
+  private listeners = new Set<ReadStateListener>();
+
+  /**
+   * Check whether an item has been read
+   */
+  isRead(item: Pick<NewsItem, 'source' | 'id'>): boolean {
+    return getItemKey(item) in this.load().read;
+  }
+
+  /**
+   * End of the previous visit; items published after this are "new"
+   */
+  getLastVisitAt(): number | null {
+    return this.load().lastVisitAt;
+  }
+
+  /**
+   * Get the keys of every read item
+   */
+  getReadKeys(): Set<string> {
+    return new Set(Object.keys(this.load().read));
+  }
+
+  /**
+   * Mark items as read
+   */
+  markRead(items: Array<Pick<NewsItem, 'source' | 'id'>>): void {
+    const state = this.load();
+    const now = Date.now();
+    let changed = false;
+    
+    items.forEach(item => {
+      const key = getItemKey(item);
+      if (!(key in state.read)) {
+        state.read[key] = now;
+        changed = true;
+      }
+    });
+    
+    if (changed) this.save();
+  }
+
+  /**
+   * Mark an item as unread again
+   */
+  markUnread(item: Pick<NewsItem, 'source' | 'id'>): void {
+    const state = this.load();
+    const key = getItemKey(item);
+    if (key in state.read) {
+      delete state.read[key];
+      this.save();
+    }
+  }
+
+  /**
+   * Subscribe to read state changes, returning an unsubscribe function
+   */
+  subscribe(listener: ReadStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load state on first use and roll the visit window forward
+   */
+  private load(): StoredReadState {
+    if (this.state) return this.state;
+    
+    const now = Date.now();
+    // Nothing is persisted during server rendering
+    if (typeof window === 'undefined') {
+      return { read: {}, lastVisitAt: null, lastActiveAt: now };
+    }
+    
+    let stored: StoredReadState | null = null;
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) as StoredReadState : null;
+    } catch (error) {
+      console.error('Error loading read state:', error);
+    }
+    
+    if (!stored) {
+      this.state = { read: {}, lastVisitAt: null, lastActiveAt: now };
+    } else if (now - stored.lastActiveAt > VISIT_TIMEOUT) {
+      this.state = { ...stored, lastVisitAt: stored.lastActiveAt };
+    } else {
+      this.state = stored;
+    }
+    
+    this.save(false);
+    this.trackActivity();
+    return this.state;
+  }
+
+  /**
+   * Keep lastActiveAt current while the page is open, so the next visit is
+   * measured from when this one ended rather than when it started
+   */
+  private trackActivity(): void {
+    const touch = () => this.touch();
+    window.addEventListener('pagehide', touch);
+    document.addEventListener('visibilitychange', touch);
+    setInterval(() => {
+      if (document.visibilityState === 'visible') touch();
+    }, ACTIVITY_INTERVAL);
+  }
+
+  /**
+   * Record activity without writing back the read items, which another tab
+   * may have changed since they were loaded
+   */
+  private touch(): void {
+    if (!this.state) return;
+    
+    this.state.lastActiveAt = Date.now();
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const stored = raw ? JSON.parse(raw) as StoredReadState : this.state;
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...stored, lastActiveAt: this.state.lastActiveAt }));
+    } catch (error) {
+      console.error('Error saving read state:', error);
+    }
+  }
+
+  private save(notify = true): void {
+    if (!this.state) return;
+    
+    this.state.lastActiveAt = Date.now();
+    const keys = Object.keys(this.state.read);
+    if (keys.length > MAX_READ_ENTRIES) {
+      keys
+        .sort((a, b) => this.state!.read[a] - this.state!.read[b])
+        .slice(0, keys.length - MAX_READ_ENTRIES)
+        .forEach(key => delete this.state!.read[key]);
+    }
+    
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving read state:', error);
+    }
+    
+    if (notify) {
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
+
+// Export a singleton instance
+export const readStateService = new ReadStateService();
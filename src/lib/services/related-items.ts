@@ -0,0 +1,47 @@
+import { NewsItem } from '../api';
+
+// Common words that say nothing about what an item is about
+const STOP_WORDS = new Set([
+  'about', 'after', 'from', 'have', 'into', 'just', 'more', 'only', 'over', 'show',
+  'than', 'that', 'their', 'there', 'these', 'this', 'what', 'when', 'where', 'which',
+  'while', 'with', 'your', 'using', 'why', 'how', 'the', 'and', 'for', 'you',
+]);
+
+/**
+ * Get the lowercase keywords, tags and language that describe an item
+ */
+function getTerms(item: NewsItem): Set<string> {
+  const terms = new Set<string>();
+
+  item.title
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .forEach(word => terms.add(word));
+  item.tags?.forEach(tag => terms.add(tag.toLowerCase()));
+  if (item.language) terms.add(item.language.toLowerCase());
+
+  return terms;
+}
+
+/**
+ * Find the candidates sharing the most terms with an item
+ */
+export function findRelatedItems(item: NewsItem, candidates: NewsItem[], limit: number = 5): NewsItem[] {
+  const terms = getTerms(item);
+  if (terms.size === 0) return [];
+
+  return candidates
+    .filter(candidate => !(candidate.source === item.source && String(candidate.id) === String(item.id)))
+    .map(candidate => {
+      let score = 0;
+      getTerms(candidate).forEach(term => {
+        if (terms.has(term)) score++;
+      });
+      return { candidate, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.candidate.timestamp - a.candidate.timestamp)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,283 @@
+import { NewsItem, SourceId } from '../api';
+import { NewsFilter } from './news-service';
+import { matchesQuery, parseQuery } from './search-query';
+
+/**
+ * One source of a saved feed and the query its items must match
+ */
+export interface SavedFeedRule {
+  source: SourceId;
+  query: string; // Search syntax, e.g. "lang:rust stars:>100"; empty matches everything
+  feedType?: string; // Defaults to the feed type picked in the sidebar
+}
+
+/**
+ * A named combination of sources, queries and feed types
+ */
+export interface SavedFeed {
+  slug: string;
+  name: string;
+  rules: SavedFeedRule[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What a share link carries; enough to open a feed without saving it
+export type SavedFeedDefinition = Pick<SavedFeed, 'slug' | 'name' | 'rules'>;
+
+export type SavedFeedUpdate = Partial<Pick<SavedFeed, 'name' | 'rules'>>;
+
+type SavedFeedListener = () => void;
+
+const STORAGE_KEY = 'hackerhome-saved-feeds';
+
+// Slug of the page for drafting a new feed, so no saved feed may use it
+export const NEW_FEED_SLUG = 'new';
+
+/**
+ * Turn a feed name into a URL segment
+ */
+export function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'feed';
+}
+
+/**
+ * Format a rule as `source[:feedType] query`, the form used in share links
+ */
+export function formatFeedRule(rule: SavedFeedRule): string {
+  const source = rule.feedType ? `${rule.source}:${rule.feedType}` : rule.source;
+  return rule.query ? `${source} ${rule.query}` : source;
+}
+
+/**
+ * Parse a rule written by `formatFeedRule`
+ */
+export function parseFeedRule(text: string): SavedFeedRule | null {
+  const match = text.trim().match(/^([^\s:]+)(?::(\S+))?(?:\s+(.*))?$/);
+  if (!match) return null;
+
+  const [, source, feedType, query] = match;
+  return feedType
+    ? { source, feedType, query: query?.trim() ?? '' }
+    : { source, query: query?.trim() ?? '' };
+}
+
+/**
+ * Find a source whose rules pick different feed types, or null if there is
+ * none. A feed fetches one list per source, so such a feed can't be built.
+ */
+export function findFeedTypeConflict(rules: SavedFeedRule[]): SourceId | null {
+  const feedTypes = new Map<SourceId, string | undefined>();
+  for (const rule of rules) {
+    if (feedTypes.has(rule.source) && feedTypes.get(rule.source) !== rule.feedType) {
+      return rule.source;
+    }
+    feedTypes.set(rule.source, rule.feedType);
+  }
+  return null;
+}
+
+/**
+ * Get a link to a feed that includes its definition, so it also opens for
+ * people who have not saved it
+ */
+export function getFeedSharePath(feed: SavedFeedDefinition): string {
+  const params = new URLSearchParams({ name: feed.name });
+  feed.rules.forEach(rule => params.append('rule', formatFeedRule(rule)));
+  return `/feed/${encodeURIComponent(feed.slug)}?${params}`;
+}
+
+/**
+ * Read a feed definition from the query parameters of a share link
+ */
+export function parseSharedFeed(
+  slug: string,
+  params: Record<string, string | string[] | undefined>
+): SavedFeedDefinition | null {
+  // Rules whose feed type conflicts with an earlier rule's are left out
+  const rules = ([] as string[])
+    .concat(params.rule ?? [])
+    .map(parseFeedRule)
+    .filter((rule): rule is SavedFeedRule => rule !== null)
+    .filter((rule, index, all) => {
+      const first = all.find(other => other.source === rule.source);
+      return first === rule || first?.feedType === rule.feedType;
+    });
+  if (rules.length === 0) return null;
+
+  const name = Array.isArray(params.name) ? params.name[0] : params.name;
+  return { slug, name: name?.trim() || slug, rules };
+}
+
+/**
+ * Get the fetch filter covering every source of a feed. Queries are applied
+ * per rule by `createFeedMatcher`, since one search cannot express them. The
+ * rules of a source share its feed type; see `findFeedTypeConflict`.
+ */
+export function getFeedFilter(feed: Pick<SavedFeed, 'rules'>): NewsFilter {
+  const feedTypes: Record<string, string> = {};
+  feed.rules.forEach(rule => {
+    if (rule.feedType) feedTypes[rule.source] = rule.feedType;
+  });
+
+  return {
+    sources: Array.from(new Set(feed.rules.map(rule => rule.source))),
+    feedTypes,
+  };
+}
+
+/**
+ * Build a predicate for items belonging to a feed: an item matches when any
+ * rule for its source matches it
+ */
+export function createFeedMatcher(feed: Pick<SavedFeed, 'rules'>): (item: NewsItem) => boolean {
+  const rules = feed.rules.map(rule => ({ source: rule.source, query: parseQuery(rule.query) }));
+  return (item: NewsItem) => rules.some(rule =>
+    rule.source === item.source && (rule.query.isEmpty || matchesQuery(item, rule.query))
+  );
+}
+
+/**
+ * Check that a stored value looks like a saved feed
+ */
+function isSavedFeed(value: unknown): value is SavedFeed {
+  const feed = value as SavedFeed;
+  return !!feed
+    && typeof feed.slug === 'string'
+    && typeof feed.name === 'string'
+    && Array.isArray(feed.rules);
+}
+
+/**
+ * Service for named feeds, stored in localStorage in sidebar order
+ */
+export class SavedFeedService {
+  private feeds: SavedFeed[] | null = null;
+  private listeners = new Set<SavedFeedListener>();
+
+  /**
+   * Get all saved feeds in display order
+   */
+  getAll(): SavedFeed[] {
+    return [...this.load()];
+  }
+
+  /**
+   * Get a single feed by slug
+   */
+  get(slug: string): SavedFeed | null {
+    return this.load().find(feed => feed.slug === slug) ?? null;
+  }
+
+  /**
+   * Save a new feed at the end of the list, giving it a unique slug
+   */
+  create(name: string, rules: SavedFeedRule[]): SavedFeed {
+    const feeds = this.load();
+    const base = slugify(name);
+    let slug = base;
+    for (let i = 2; slug === NEW_FEED_SLUG || feeds.some(feed => feed.slug === slug); i++) {
+      slug = `${base}-${i}`;
+    }
+
+    const now = Date.now();
+    const feed: SavedFeed = { slug, name: name.trim() || 'Untitled feed', rules, createdAt: now, updatedAt: now };
+    feeds.push(feed);
+    this.save();
+    return feed;
+  }
+
+  /**
+   * Rename a feed or replace its rules. The slug is kept so shared links keep working.
+   */
+  update(slug: string, update: SavedFeedUpdate): SavedFeed | null {
+    const feeds = this.load();
+    const index = feeds.findIndex(feed => feed.slug === slug);
+    if (index === -1) return null;
+
+    const feed: SavedFeed = { ...feeds[index], ...update, updatedAt: Date.now() };
+    feeds[index] = feed;
+    this.save();
+    return feed;
+  }
+
+  /**
+   * Delete a feed
+   */
+  remove(slug: string): void {
+    const feeds = this.load();
+    const index = feeds.findIndex(feed => feed.slug === slug);
+    if (index === -1) return;
+
+    feeds.splice(index, 1);
+    this.save();
+  }
+
+  /**
+   * Move a feed to a new position in the list
+   */
+  move(slug: string, toIndex: number): void {
+    const feeds = this.load();
+    const index = feeds.findIndex(feed => feed.slug === slug);
+    const target = Math.max(0, Math.min(toIndex, feeds.length - 1));
+    if (index === -1 || index === target) return;
+
+    const [feed] = feeds.splice(index, 1);
+    feeds.splice(target, 0, feed);
+    this.save();
+  }
+
+  /**
+   * Subscribe to feed changes, returning an unsubscribe function
+   */
+  subscribe(listener: SavedFeedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): SavedFeed[] {
+    if (this.feeds) return this.feeds;
+
+    // Nothing is persisted during server rendering
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const stored: unknown = raw ? JSON.parse(raw) : [];
+      this.feeds = Array.isArray(stored) ? stored.filter(isSavedFeed) : [];
+    } catch (error) {
+      console.error('Error loading saved feeds:', error);
+      this.feeds = [];
+    }
+    return this.feeds;
+  }
+
+  private save(): void {
+    if (!this.feeds) return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.feeds));
+    } catch (error) {
+      console.error('Error saving feeds:', error);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('SavedFeedService: Listener error:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const savedFeedService = new SavedFeedService();
@@ -0,0 +1,372 @@
+import { NewsItem, getItemKey } from '../api';
+import { isIndexedDbSupported, openDatabase, promisifyRequest } from '../utils/indexeddb';
+import { matchesQuery, parseQuery, QueryToken } from './search-query';
+
+/**
+ * An item in the search index with its term frequencies
+ */
+interface IndexedDocument {
+  key: string;
+  item: NewsItem; // Latest snapshot seen
+  terms: Record<string, number>;
+  length: number;
+  indexedAt: number;
+  lastSeenAt: number;
+}
+
+interface Posting {
+  term: string;
+  keys: string[];
+}
+
+export interface SearchResult {
+  item: NewsItem;
+  score: number;
+  lastSeenAt: number;
+}
+
+export interface SearchIndexStats {
+  documents: number;
+  terms: number;
+  oldestAt: number | null;
+}
+
+const DB_NAME = 'hackerhome-search';
+const DOCUMENTS = 'documents';
+const POSTINGS = 'postings';
+
+// Least recently seen items are dropped beyond this many
+const MAX_DOCUMENTS = 10000;
+const MAX_CONTENT_LENGTH = 5000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Score multipliers for query words that only match approximately
+const PREFIX_WEIGHT = 0.6;
+const FUZZY_WEIGHT = 0.4;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'why', 'with',
+]);
+
+/**
+ * Split text into lowercase index terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#]+/u)
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Count the terms of an item, weighting the title and tags above the body
+ */
+function getTermFrequencies(item: NewsItem): Record<string, number> {
+  const frequencies: Record<string, number> = {};
+  const add = (text: string | null | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach(term => {
+      frequencies[term] = (frequencies[term] ?? 0) + weight;
+    });
+  };
+
+  add(item.title, 3);
+  add(item.tags?.join(' '), 2);
+  add(item.description, 1);
+  add(item.author, 1);
+  add(item.language, 1);
+  add(item.content?.slice(0, MAX_CONTENT_LENGTH), 1);
+  return frequencies;
+}
+
+/**
+ * Edit distance between two words, giving up once it exceeds the limit
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Client-side full-text index of every item the app has fetched, stored in
+ * IndexedDB and mirrored in memory for querying
+ */
+export class SearchIndexService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+  // Serializes writes so concurrent batches don't clobber each other's postings
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Add or refresh items in the index
+   */
+  indexItems(items: NewsItem[]): Promise<void> {
+    if (!isIndexedDbSupported() || items.length === 0) return Promise.resolve();
+    
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(items))
+      .catch(error => {
+        console.error('SearchIndexService: Indexing failed:', error);
+      });
+    return this.writeQueue;
+  }
+
+  /**
+   * Search the index. Supports the feed query syntax; plain words also match
+   * by prefix and with small typos.
+   */
+  async search(input: string, limit: number = 50): Promise<SearchResult[]> {
+    if (!isIndexedDbSupported()) return [];
+    await this.load();
+    
+    const query = parseQuery(input);
+    if (query.isEmpty) return [];
+    
+    const words = query.tokens
+      .filter(token => token.kind === 'term' && !token.negated)
+      .flatMap(token => tokenize(token.value));
+    // Fields, phrases and exclusions are checked against the item itself
+    const filters: QueryToken[] = query.tokens.filter(token => token.kind !== 'term' || token.negated);
+    
+    let scores: Map<string, number> | null = null;
+    for (const word of words) {
+      const wordScores = this.scoreWord(word);
+      if (scores === null) {
+        scores = wordScores;
+      } else {
+        const combined = new Map<string, number>();
+        scores.forEach((score, key) => {
+          const wordScore = wordScores.get(key);
+          if (wordScore !== undefined) combined.set(key, score + wordScore);
+        });
+        scores = combined;
+      }
+    }
+    
+    const candidates = scores
+      ? Array.from(scores.keys())
+      : Array.from(this.documents.keys());
+    const filterQuery = { tokens: filters, isEmpty: filters.length === 0 };
+    
+    return candidates
+      .map(key => this.documents.get(key)!)
+      .filter(doc => matchesQuery(doc.item, filterQuery))
+      .map(doc => ({ item: doc.item, score: scores?.get(doc.key) ?? 0, lastSeenAt: doc.lastSeenAt }))
+      .sort((a, b) => b.score - a.score || b.item.timestamp - a.item.timestamp)
+      .slice(0, limit);
+  }
+
+  /**
+   * Get the size of the index
+   */
+  async getStats(): Promise<SearchIndexStats> {
+    if (!isIndexedDbSupported()) return { documents: 0, terms: 0, oldestAt: null };
+    await this.load();
+    
+    let oldestAt: number | null = null;
+    this.documents.forEach(doc => {
+      if (oldestAt === null || doc.indexedAt < oldestAt) oldestAt = doc.indexedAt;
+    });
+    return { documents: this.documents.size, terms: this.postings.size, oldestAt };
+  }
+
+  /**
+   * Remove everything from the index
+   */
+  async clear(): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction([DOCUMENTS, POSTINGS], 'readwrite');
+    tx.objectStore(DOCUMENTS).clear();
+    tx.objectStore(POSTINGS).clear();
+    await this.complete(tx);
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * BM25 score of every document matching a query word exactly, by prefix or
+   * within a small edit distance
+   */
+  private scoreWord(word: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(word)) expansions.set(word, 1);
+    
+    const maxEdits = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+    this.postings.forEach((_, term) => {
+      if (term === word) return;
+      if (term.startsWith(word)) {
+        expansions.set(term, PREFIX_WEIGHT);
+      } else if (maxEdits > 0 && editDistance(word, term, maxEdits) <= maxEdits) {
+        expansions.set(term, FUZZY_WEIGHT);
+      }
+    });
+    
+    const total = this.documents.size;
+    const averageLength = total > 0 ? this.totalLength / total : 1;
+    const scores = new Map<string, number>();
+    
+    expansions.forEach((weight, term) => {
+      const keys = this.postings.get(term)!;
+      const idf = Math.log(1 + (total - keys.size + 0.5) / (keys.size + 0.5));
+      keys.forEach(key => {
+        const doc = this.documents.get(key);
+        if (!doc) return;
+        const tf = doc.terms[term] ?? 0;
+        const score = weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+        // A document counts once per query word, by its best-matching term
+        scores.set(key, Math.max(scores.get(key) ?? 0, score));
+      });
+    });
+    
+    return scores;
+  }
+
+  private async write(items: NewsItem[]): Promise<void> {
+    await this.load();
+    const db = await this.db();
+    const tx = db.transaction([DOCUMENTS, POSTINGS], 'readwrite');
+    const documentStore = tx.objectStore(DOCUMENTS);
+    const changedTerms = new Set<string>();
+    const now = Date.now();
+    
+    items.forEach(item => {
+      const key = getItemKey(item);
+      const existing = this.documents.get(key);
+      const terms = getTermFrequencies(item);
+      
+      if (!existing || JSON.stringify(existing.terms) !== JSON.stringify(terms)) {
+        if (existing) this.removePostings(existing, changedTerms);
+        Object.keys(terms).forEach(term => {
+          this.addPosting(term, key);
+          changedTerms.add(term);
+        });
+      }
+      
+      const length = Object.values(terms).reduce((sum, count) => sum + count, 0);
+      this.totalLength += length - (existing?.length ?? 0);
+      const doc: IndexedDocument = {
+        key,
+        item,
+        terms,
+        length,
+        indexedAt: existing?.indexedAt ?? now,
+        lastSeenAt: now,
+      };
+      this.documents.set(key, doc);
+      documentStore.put(doc);
+    });
+    
+    // Forget the least recently seen items once the index is full
+    if (this.documents.size > MAX_DOCUMENTS) {
+      Array.from(this.documents.values())
+        .sort((a, b) => a.lastSeenAt - b.lastSeenAt)
+        .slice(0, this.documents.size - MAX_DOCUMENTS)
+        .forEach(doc => {
+          this.removePostings(doc, changedTerms);
+          this.documents.delete(doc.key);
+          this.totalLength -= doc.length;
+          documentStore.delete(doc.key);
+        });
+    }
+    
+    const postingStore = tx.objectStore(POSTINGS);
+    changedTerms.forEach(term => {
+      const keys = this.postings.get(term);
+      if (keys && keys.size > 0) {
+        postingStore.put({ term, keys: Array.from(keys) } as Posting);
+      } else {
+        this.postings.delete(term);
+        postingStore.delete(term);
+      }
+    });
+    
+    await this.complete(tx);
+  }
+
+  private addPosting(term: string, key: string): void {
+    const keys = this.postings.get(term) ?? new Set<string>();
+    keys.add(key);
+    this.postings.set(term, keys);
+  }
+
+  private removePostings(doc: IndexedDocument, changedTerms: Set<string>): void {
+    Object.keys(doc.terms).forEach(term => {
+      this.postings.get(term)?.delete(doc.key);
+      changedTerms.add(term);
+    });
+  }
+
+  /**
+   * Read the stored index into memory once
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await this.db();
+        const tx = db.transaction([DOCUMENTS, POSTINGS], 'readonly');
+        const [documents, postings] = await Promise.all([
+          promisifyRequest<IndexedDocument[]>(tx.objectStore(DOCUMENTS).getAll()),
+          promisifyRequest<Posting[]>(tx.objectStore(POSTINGS).getAll()),
+        ]);
+        documents.forEach(doc => {
+          this.documents.set(doc.key, doc);
+          this.totalLength += doc.length;
+        });
+        postings.forEach(posting => {
+          this.postings.set(posting.term, new Set(posting.keys));
+        });
+      })().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, 1, db => {
+        db.createObjectStore(DOCUMENTS, { keyPath: 'key' });
+        db.createObjectStore(POSTINGS, { keyPath: 'term' });
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export a singleton instance
+export const searchIndexService = new SearchIndexService();
@@ -0,0 +1,193 @@
+import { NewsItem } from '../api';
+import { sourceRegistry } from '../sources';
+
+export type QueryField =
+  | 'source'
+  | 'lang'
+  | 'author'
+  | 'tag'
+  | 'kind'
+  | 'stars'
+  | 'points'
+  | 'reactions'
+  | 'comments'
+  | 'forks'
+  | 'after'
+  | 'before';
+
+type Comparison = '>' | '>=' | '<' | '<=' | '=';
+
+/**
+ * A single piece of a search query, with its position in the input
+ */
+export interface QueryToken {
+  kind: 'field' | 'phrase' | 'term';
+  raw: string;
+  start: number;
+  end: number;
+  negated: boolean;
+  value: string;
+  field?: QueryField;
+  comparison?: Comparison;
+}
+
+export interface ParsedQuery {
+  tokens: QueryToken[];
+  isEmpty: boolean;
+}
+
+// Accepted spellings of each field
+const FIELD_ALIASES: Record<string, QueryField> = {
+  source: 'source',
+  lang: 'lang',
+  language: 'lang',
+  author: 'author',
+  by: 'author',
+  tag: 'tag',
+  kind: 'kind',
+  stars: 'stars',
+  points: 'points',
+  reactions: 'reactions',
+  comments: 'comments',
+  forks: 'forks',
+  after: 'after',
+  before: 'before',
+};
+
+const NUMERIC_FIELDS = new Set<QueryField>(['stars', 'points', 'reactions', 'comments', 'forks']);
+const DATE_FIELDS = new Set<QueryField>(['after', 'before']);
+
+// Optional "-", then field:value, a quoted phrase (possibly still being typed) or a bare word
+const TOKEN = /(-?)(?:([a-z]+):("[^"]*"?|\S*)|"([^"]*)"?|(\S+))/gi;
+const COMPARISON = /^(>=|<=|>|<|=)?(.+)$/;
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+/**
+ * Check whether a field value is usable, e.g. a number for stars:>500
+ */
+function isValidValue(field: QueryField, value: string): boolean {
+  if (!value) return false;
+  if (NUMERIC_FIELDS.has(field)) return !Number.isNaN(Number(value));
+  if (DATE_FIELDS.has(field)) return !Number.isNaN(Date.parse(value));
+  return true;
+}
+
+/**
+ * Parse a query like `source:github lang:rust stars:>500 -crypto "exact phrase"`.
+ * Unknown or incomplete fields are treated as plain search terms.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const tokens: QueryToken[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, name, fieldValue, phrase, word] = match;
+    const start = match.index ?? 0;
+    const negated = minus === '-';
+    const base = { raw, start, end: start + raw.length, negated };
+
+    if (name !== undefined) {
+      const field = FIELD_ALIASES[name.toLowerCase()];
+      const unquoted = unquote(fieldValue);
+      const [, comparison, value] = field && NUMERIC_FIELDS.has(field)
+        ? unquoted.match(COMPARISON) ?? []
+        : [unquoted, undefined, unquoted];
+      if (field && value && isValidValue(field, value)) {
+        tokens.push({
+          ...base,
+          kind: 'field',
+          field,
+          value: value.toLowerCase(),
+          comparison: NUMERIC_FIELDS.has(field) ? (comparison as Comparison) || '=' : undefined,
+        });
+      } else {
+        tokens.push({ ...base, kind: 'term', value: raw.slice(minus.length).toLowerCase() });
+      }
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) {
+        tokens.push({ ...base, kind: 'phrase', value: phrase.toLowerCase() });
+      }
+    } else if (word !== undefined && word !== '-') {
+      tokens.push({ ...base, kind: 'term', value: word.toLowerCase() });
+    }
+  }
+
+  return { tokens, isEmpty: tokens.length === 0 };
+}
+
+function compare(actual: number | undefined, comparison: Comparison, expected: number): boolean {
+  if (actual === undefined) return false;
+  switch (comparison) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+function getNumber(item: NewsItem, field: QueryField): number | undefined {
+  switch (field) {
+    case 'stars': return item.stars;
+    case 'points': return item.points;
+    case 'reactions': return item.reactions;
+    case 'comments': return item.commentCount;
+    case 'forks': return item.forks;
+    default: return undefined;
+  }
+}
+
+function getSearchText(item: NewsItem): string {
+  return [item.title, item.description, item.content, item.author, ...(item.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+}
+
+function matchesToken(item: NewsItem, token: QueryToken, text: string): boolean {
+  if (token.kind !== 'field') {
+    return text.includes(token.value);
+  }
+
+  const value = token.value;
+  switch (token.field) {
+    case 'source':
+      return item.source.toLowerCase() === value
+        || sourceRegistry.getName(item.source).toLowerCase() === value
+        || !!item.crossPosts?.some(post => post.source.toLowerCase() === value);
+    case 'lang':
+      return item.language?.toLowerCase() === value;
+    case 'author':
+      return item.author.toLowerCase() === value;
+    case 'tag':
+      return !!item.tags?.some(tag => tag.toLowerCase() === value);
+    case 'kind':
+      return (item.kind ?? 'story').toLowerCase() === value;
+    case 'after':
+      return item.timestamp * 1000 > Date.parse(value);
+    case 'before':
+      return item.timestamp * 1000 < Date.parse(value);
+    default:
+      return compare(getNumber(item, token.field!), token.comparison!, Number(value));
+  }
+}
+
+/**
+ * Check whether an item satisfies every token of a query
+ */
+export function matchesQuery(item: NewsItem, query: ParsedQuery): boolean {
+  if (query.isEmpty) return true;
+  const text = getSearchText(item);
+  return query.tokens.every(token => matchesToken(item, token, text) !== token.negated);
+}
+
+/**
+ * Words and phrases to highlight in matching results
+ */
+export function getHighlightTerms(query: ParsedQuery): string[] {
+  return query.tokens
+    .filter(token => token.kind !== 'field' && !token.negated)
+    .map(token => token.value);
+}
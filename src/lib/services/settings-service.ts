@@ -0,0 +1,204 @@
+import { RssFeed, SourceId } from '../api';
+
+// Simple mode hides power-user controls such as sorting and search history
+export type InterfaceMode = 'simple' | 'advanced';
+
+/**
+ * Per-source overrides; anything unset falls back to the adapter's defaults
+ */
+export interface SourceSettings {
+  enabled?: boolean;
+  limit?: number;
+  feedType?: string;
+  options?: Record<string, string>;
+}
+
+export interface AppSettings {
+  // Sources listed here come first, in this order; the rest keep registry order
+  sourceOrder: SourceId[];
+  sources: Record<SourceId, SourceSettings>;
+  // Feed URLs added as sources
+  rssFeeds: RssFeed[];
+  refreshIntervalMinutes: number;
+  mode: InterfaceMode;
+}
+
+type SettingsListener = () => void;
+
+const STORAGE_KEY = 'hackerhome-settings';
+
+export const DEFAULT_ITEM_LIMIT = 30;
+export const MAX_ITEM_LIMIT = 100;
+
+export const REFRESH_INTERVALS = [1, 5, 15, 30, 60];
+
+const DEFAULT_SETTINGS: AppSettings = {
+  sourceOrder: [],
+  sources: {},
+  rssFeeds: [],
+  refreshIntervalMinutes: 5,
+  mode: 'advanced',
+};
+
+/**
+ * Clamp a requested item limit to what sources are asked for
+ */
+export function clampItemLimit(limit: number): number {
+  return Math.max(1, Math.min(MAX_ITEM_LIMIT, Math.round(limit) || DEFAULT_ITEM_LIMIT));
+}
+
+/**
+ * Sort items with an ID by a preferred order, keeping the rest in place after them
+ */
+export function orderById<T extends { id: string }>(items: T[], order: string[]): T[] {
+  const rank = (id: string) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item.id) - rank(b.item.id) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Service for user preferences, persisted to localStorage. On the server the
+ * settings only live in memory.
+ */
+export class SettingsService {
+  private settings: AppSettings = { ...DEFAULT_SETTINGS, sources: {}, rssFeeds: [] };
+  private restored = false;
+  private listeners = new Set<SettingsListener>();
+
+  /**
+   * Load the stored settings. Until this runs after hydration the defaults are
+   * used, so the server and the first client render produce the same markup.
+   */
+  restore(): void {
+    if (this.restored || typeof window === 'undefined') return;
+    this.restored = true;
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return;
+      this.settings = { ...DEFAULT_SETTINGS, sources: {}, rssFeeds: [], ...JSON.parse(raw) as Partial<AppSettings> };
+    } catch (error) {
+      console.error('Error loading settings:', error);
+      return;
+    }
+    this.notify();
+  }
+
+  /**
+   * Get the current settings
+   */
+  get(): AppSettings {
+    return this.settings;
+  }
+
+  /**
+   * Get the overrides of a single source
+   */
+  getSource(id: SourceId): SourceSettings {
+    return this.settings.sources[id] ?? {};
+  }
+
+  /**
+   * Change top-level settings
+   */
+  update(update: Partial<Omit<AppSettings, 'sources'>>): void {
+    this.settings = { ...this.settings, ...update };
+    this.save();
+  }
+
+  /**
+   * Change the overrides of a single source
+   */
+  updateSource(id: SourceId, update: SourceSettings): void {
+    const settings = this.settings;
+    const current = settings.sources[id] ?? {};
+    this.settings = {
+      ...settings,
+      sources: {
+        ...settings.sources,
+        [id]: {
+          ...current,
+          ...update,
+          ...(update.options ? { options: { ...current.options, ...update.options } } : {}),
+        },
+      },
+    };
+    this.save();
+  }
+
+  /**
+   * Add a feed as a source, or rename it if its URL was added before
+   */
+  addRssFeed(feed: RssFeed): void {
+    const feeds = this.settings.rssFeeds;
+    this.settings = {
+      ...this.settings,
+      rssFeeds: feeds.some(f => f.id === feed.id)
+        ? feeds.map(f => (f.id === feed.id ? feed : f))
+        : [...feeds, feed],
+    };
+    this.save();
+  }
+
+  /**
+   * Remove a feed along with its source overrides
+   */
+  removeRssFeed(id: SourceId): void {
+    const sources = { ...this.settings.sources };
+    delete sources[id];
+    this.settings = {
+      ...this.settings,
+      sources,
+      sourceOrder: this.settings.sourceOrder.filter(sourceId => sourceId !== id),
+      rssFeeds: this.settings.rssFeeds.filter(feed => feed.id !== id),
+    };
+    this.save();
+  }
+
+  /**
+   * Forget every preference
+   */
+  reset(): void {
+    this.settings = { ...DEFAULT_SETTINGS, sources: {}, rssFeeds: [] };
+    this.save();
+  }
+
+  /**
+   * Subscribe to settings changes, returning an unsubscribe function
+   */
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(): void {
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+      } catch (error) {
+        console.error('Error saving settings:', error);
+      }
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('SettingsService: Listener error:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const settingsService = new SettingsService();
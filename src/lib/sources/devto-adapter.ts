@@ -0,0 +1,59 @@
+import { devToClient, NormalizedDevToArticle } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Source adapter for the latest DEV.to articles
+ */
+export const devToAdapter: SourceAdapter<NormalizedDevToArticle> = {
+  id: 'devto',
+  name: 'DEV.to',
+  capabilities: {
+    search: false,
+    tags: true,
+    comments: true,
+    pagination: true,
+  },
+  client: devToClient,
+
+  fetch({ limit, skipCache }) {
+    return devToClient.getLatestArticles(limit, 1, { skipCache });
+  },
+
+  // The cursor is a page number
+  async fetchPage({ limit, cursor, skipCache }) {
+    const page = Number(cursor ?? 1);
+    const items = await devToClient.getLatestArticles(limit, page, { skipCache });
+    return { items, nextCursor: items.length < limit ? null : String(page + 1) };
+  },
+
+  getItem(id) {
+    return devToClient.getArticle(Number(id));
+  },
+
+  getContent(id) {
+    return devToClient.getArticleContent(Number(id));
+  },
+
+  getCommentThread(itemId) {
+    return devToClient.getCommentThread(Number(itemId));
+  },
+
+  normalize(article) {
+    return {
+      id: article.id,
+      title: article.title,
+      url: article.url,
+      canonicalUrl: article.canonicalUrl ?? undefined,
+      description: article.description,
+      author: article.author,
+      authorImage: article.authorImage,
+      timestamp: article.timestamp,
+      reactions: article.reactions,
+      commentCount: article.commentCount,
+      readingTime: article.readingTime,
+      tags: article.tags,
+      coverImage: article.coverImage,
+      source: article.source,
+    };
+  },
+};
@@ -0,0 +1,118 @@
+import { ApiError, BaseApiClient, devToClient, githubClient, hackerNewsClient, NewsItem, RequestOptions } from '../api';
+import { Follow, FollowKind, FOLLOW_KINDS, FOLLOWING_SOURCE_ID, getFollows } from '../services/follow-service';
+import { SourceAdapter } from './registry';
+import { devToAdapter } from './devto-adapter';
+import { githubAdapter } from './github-adapter';
+import { hackerNewsAdapter } from './hacker-news-adapter';
+
+// Latest items read per follow; enough to catch up between refreshes
+const ITEMS_PER_FOLLOW = 5;
+// Each follow costs at most one request, so this caps the requests of a fetch
+const MAX_REQUESTS_PER_FETCH = 40;
+
+const CLIENTS: Record<FollowKind, BaseApiClient> = {
+  repos: githubClient,
+  github: githubClient,
+  hackernews: hackerNewsClient,
+  devto: devToClient,
+};
+
+/**
+ * Order follows so each kind takes its turn, keeping the first ones within
+ * the request budget. Follows past it are left out of this fetch.
+ */
+function withinBudget(follows: Follow[]): Follow[] {
+  const byKind = FOLLOW_KINDS.map(({ id }) => follows.filter(follow => follow.kind === id));
+  const longest = Math.max(0, ...byKind.map(list => list.length));
+  const interleaved = Array.from({ length: longest }, (_, i) => byKind.flatMap(list => list[i] ?? []));
+  return interleaved.flat().slice(0, MAX_REQUESTS_PER_FETCH);
+}
+
+/**
+ * Fail follows fast once their client has no requests left in its rate limit
+ * window, instead of waiting for the window to reset mid-fetch
+ */
+function checkRateLimits(follows: Follow[]): Array<ApiError | null> {
+  const remaining = new Map<BaseApiClient, number>();
+  return follows.map(({ kind }) => {
+    const client = CLIENTS[kind];
+    if (!remaining.has(client)) {
+      const { requests, maxRequests } = client.getRateLimitState();
+      remaining.set(client, maxRequests - requests);
+    }
+    const left = remaining.get(client) as number;
+    remaining.set(client, left - 1);
+    return left > 0 ? null : new ApiError(`Rate limit reached for ${kind}, try again shortly`, 429, FOLLOWING_SOURCE_ID, true);
+  });
+}
+
+/**
+ * Fetch the latest activity of one follow, normalized by the adapter of the
+ * source it comes from
+ */
+async function fetchFollow({ kind, name }: Follow, request: RequestOptions): Promise<NewsItem[]> {
+  switch (kind) {
+    case 'repos': {
+      const releases = await githubClient.getReleases([name], ITEMS_PER_FOLLOW, 0, request);
+      return releases.map(release => githubAdapter.normalize(release));
+    }
+    case 'github': {
+      const repos = await githubClient.getUserRepositories(name, ITEMS_PER_FOLLOW, 'created', request);
+      return repos.map(repo => githubAdapter.normalize(repo));
+    }
+    case 'hackernews': {
+      const stories = await hackerNewsClient.getUserSubmissions(name, ITEMS_PER_FOLLOW, request);
+      return stories.map(story => hackerNewsAdapter.normalize(story));
+    }
+    case 'devto': {
+      const articles = await devToClient.getArticlesByUser(name, ITEMS_PER_FOLLOW, request);
+      return articles.map(article => devToAdapter.normalize(article));
+    }
+  }
+}
+
+/**
+ * Source adapter for the new releases, repositories, submissions and articles
+ * of followed repositories and people. Items keep the source they come from,
+ * so their details and comments load through that source's adapter.
+ */
+export const followingAdapter: SourceAdapter<NewsItem> = {
+  id: FOLLOWING_SOURCE_ID,
+  name: 'Following',
+  capabilities: {
+    search: false,
+    tags: true,
+    comments: false,
+    pagination: false,
+  },
+  // Has its own page, so it stays out of the main feed unless chosen
+  enabledByDefault: false,
+  options: FOLLOW_KINDS.map(({ id, name, placeholder }) => ({ id, name, placeholder })),
+
+  // Follows that fail, e.g. a renamed user, are skipped unless all of them do
+  async fetch({ limit, options, skipCache }) {
+    const follows = withinBudget(getFollows(options));
+    const limited = checkRateLimits(follows);
+    const results = await Promise.allSettled(
+      follows.map((follow, i) => (limited[i] ? Promise.reject(limited[i]) : fetchFollow(follow, { skipCache })))
+    );
+
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    failed.forEach(result => console.error('Error fetching a followed source:', result.reason));
+    if (failed.length > 0 && failed.length === results.length) {
+      // Keep the status of the first failure, so a rate limit stays retryable
+      const reason = failed[0].reason;
+      const { status, retryable } = reason instanceof ApiError ? reason : { status: 0, retryable: false };
+      throw new ApiError(`Failed to fetch followed sources: ${reason?.message ?? reason}`, status, FOLLOWING_SOURCE_ID, retryable);
+    }
+
+    return results
+      .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  },
+
+  normalize(item) {
+    return item;
+  },
+};
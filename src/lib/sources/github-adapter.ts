@@ -0,0 +1,167 @@
+import {
+  githubClient,
+  NormalizedGitHubIssue,
+  NormalizedGitHubRelease,
+  NormalizedGitHubRepository,
+  parseRepoNames,
+  TrendingWindow,
+} from '../api';
+import { SourceAdapter, SourceFetchOptions } from './registry';
+
+type GitHubFeedItem = NormalizedGitHubRepository | NormalizedGitHubRelease | NormalizedGitHubIssue;
+
+/**
+ * Read the trending window and language from the fetch options
+ */
+function getTrendingOptions({ options }: SourceFetchOptions): { since: TrendingWindow; language?: string } {
+  const since = options?.since === 'weekly' || options?.since === 'monthly' ? options.since : 'daily';
+  return { since, language: options?.language?.trim() || undefined };
+}
+
+/**
+ * Fetch a page of the chosen feed type. Trending and issues are paged by page
+ * number, releases by offset into the merged list.
+ */
+async function fetchGitHubPage(options: SourceFetchOptions, cursor?: string): Promise<{ items: GitHubFeedItem[]; nextCursor: string | null }> {
+  const { limit, feedType = 'trending', skipCache } = options;
+  const { since, language } = getTrendingOptions(options);
+
+  if (feedType === 'releases') {
+    const offset = Number(cursor ?? 0);
+    const items = await githubClient.getReleases(parseRepoNames(options.options?.repos), limit, offset, { skipCache });
+    return { items, nextCursor: items.length < limit ? null : String(offset + limit) };
+  }
+
+  const page = Number(cursor ?? 1);
+  if (feedType === 'issues') {
+    // Search results stop after the first 1000
+    const items = await githubClient.getGoodFirstIssues(language, limit, page, { skipCache });
+    const hasMore = items.length === limit && page * limit < 1000;
+    return { items, nextCursor: hasMore ? String(page + 1) : null };
+  }
+
+  const items = await githubClient.getTrendingRepositories(language, since, limit, page, { skipCache });
+  return { items, nextCursor: items.length < limit ? null : String(page + 1) };
+}
+
+/**
+ * Get a repository, release or issue by ID. Releases and issues have IDs like
+ * "release:owner:repo:id"; repository IDs are numeric.
+ */
+function getGitHubItem(id: string): Promise<GitHubFeedItem> {
+  const [kind, owner, repo, key] = id.split(':');
+  if (kind === 'release') return githubClient.getRelease(owner, repo, Number(key));
+  if (kind === 'issue') return githubClient.getIssue(owner, repo, Number(key));
+  return githubClient.getRepositoryById(Number(id));
+}
+
+/**
+ * Source adapter for trending GitHub repositories, releases of watched
+ * repositories and good first issues
+ */
+export const githubAdapter: SourceAdapter<GitHubFeedItem> = {
+  id: 'github',
+  name: 'GitHub',
+  capabilities: {
+    search: true,
+    tags: true,
+    comments: false,
+    pagination: true,
+  },
+  client: githubClient,
+  feedTypes: [
+    { id: 'trending', name: 'Trending' },
+    { id: 'releases', name: 'Releases' },
+    { id: 'issues', name: 'Good first issues' },
+  ],
+  defaultFeedType: 'trending',
+  options: [
+    {
+      id: 'since',
+      name: 'Trending window',
+      choices: [
+        { id: 'daily', name: 'Today' },
+        { id: 'weekly', name: 'This week' },
+        { id: 'monthly', name: 'This month' },
+      ],
+      defaultValue: 'daily',
+    },
+    { id: 'language', name: 'Language', placeholder: 'Any language' },
+    { id: 'repos', name: 'Watched repositories', placeholder: 'vercel/next.js, rust-lang/rust' },
+  ],
+
+  async fetch(options) {
+    const { items } = await fetchGitHubPage(options);
+    return items;
+  },
+
+  fetchPage(options) {
+    return fetchGitHubPage(options, options.cursor);
+  },
+
+  getItem(id) {
+    return getGitHubItem(id);
+  },
+
+  // Release notes and issue bodies are markdown, like READMEs
+  async getContent(id) {
+    const item = await getGitHubItem(id);
+    if (item.kind !== 'repository') {
+      return item.body ? { format: 'text', body: item.body } : null;
+    }
+    const [owner, name] = item.fullName.split('/');
+    return githubClient.getReadme(owner, name);
+  },
+
+  normalize(item) {
+    if (item.kind === 'release') {
+      return {
+        id: item.id,
+        title: `${item.repository} ${item.name}`,
+        url: item.url,
+        description: item.description,
+        author: item.author,
+        authorImage: item.authorImage,
+        authorUrl: item.authorUrl,
+        timestamp: item.timestamp,
+        tags: [item.repository.toLowerCase()],
+        kind: item.prerelease ? 'pre-release' : 'release',
+        source: item.source,
+      };
+    }
+
+    if (item.kind === 'issue') {
+      return {
+        id: item.id,
+        title: item.title,
+        url: item.url,
+        description: item.description || item.repository,
+        author: item.author,
+        authorImage: item.authorImage,
+        authorUrl: item.authorUrl,
+        timestamp: item.timestamp,
+        commentCount: item.commentCount,
+        tags: item.labels,
+        kind: 'issue',
+        source: item.source,
+      };
+    }
+
+    return {
+      id: item.id,
+      title: item.name,
+      url: item.url,
+      description: item.description || '',
+      author: item.author,
+      authorImage: item.authorImage,
+      authorUrl: item.authorUrl,
+      timestamp: item.timestamp,
+      stars: item.stars,
+      starsGained: item.starsGained,
+      forks: item.forks,
+      language: item.language,
+      tags: item.topics,
+      source: item.source,
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import { hackerNewsClient, HackerNewsFeedType, NormalizedHackerNewsItem } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Source adapter for the Hacker News story lists
+ */
+export const hackerNewsAdapter: SourceAdapter<NormalizedHackerNewsItem> = {
+  id: 'hackernews',
+  name: 'Hacker News',
+  capabilities: {
+    search: false,
+    tags: false,
+    comments: true,
+    pagination: true,
+  },
+  client: hackerNewsClient,
+  feedTypes: [
+    { id: 'top', name: 'Top' },
+    { id: 'new', name: 'New' },
+    { id: 'best', name: 'Best' },
+    { id: 'ask', name: 'Ask HN' },
+    { id: 'show', name: 'Show HN' },
+    { id: 'job', name: 'Jobs' },
+  ],
+  defaultFeedType: 'top',
+
+  fetch({ limit, feedType = 'top', skipCache }) {
+    return hackerNewsClient.getStories(feedType as HackerNewsFeedType, limit, { skipCache });
+  },
+
+  // The cursor is an offset into the list's story IDs
+  async fetchPage({ limit, feedType = 'top', cursor, skipCache }) {
+    const { items, nextOffset } = await hackerNewsClient.getStoriesPage(
+      feedType as HackerNewsFeedType,
+      limit,
+      Number(cursor ?? 0),
+      { skipCache }
+    );
+    return { items, nextCursor: nextOffset === null ? null : String(nextOffset) };
+  },
+
+  getItem(id) {
+    return hackerNewsClient.getStory(Number(id));
+  },
+
+  getContent(id) {
+    return hackerNewsClient.getStoryContent(Number(id));
+  },
+
+  getCommentThread(itemId) {
+    return hackerNewsClient.getCommentThread(Number(itemId));
+  },
+
+  getComments(ids) {
+    return hackerNewsClient.getComments(ids.map(Number));
+  },
+
+  normalize(item) {
+    return {
+      id: item.id,
+      title: item.title,
+      url: item.url,
+      content: item.content,
+      author: item.author,
+      timestamp: item.timestamp,
+      points: item.points,
+      commentCount: item.commentCount,
+      kind: item.itemType,
+      pollOptions: item.pollOptions,
+      source: item.source,
+    };
+  },
+};
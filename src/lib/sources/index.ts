@@ -0,0 +1,52 @@
+import { getRssFeedFromId, isRssFeedId } from '../api';
+import { settingsService } from '../services/settings-service';
+import { sourceRegistry } from './registry';
+import { hackerNewsAdapter } from './hacker-news-adapter';
+import { devToAdapter } from './devto-adapter';
+import { githubAdapter } from './github-adapter';
+import { lobstersAdapter } from './lobsters-adapter';
+import { redditAdapter } from './reddit-adapter';
+import { productHuntAdapter } from './product-hunt-adapter';
+import { followingAdapter } from './following-adapter';
+import { createRssAdapter } from './rss-adapter';
+
+// Export the registry and built-in adapters
+export * from './registry';
+export * from './hacker-news-adapter';
+export * from './devto-adapter';
+export * from './github-adapter';
+export * from './lobsters-adapter';
+export * from './reddit-adapter';
+export * from './product-hunt-adapter';
+export * from './following-adapter';
+export * from './rss-adapter';
+
+// Register the built-in sources
+sourceRegistry.register(hackerNewsAdapter);
+sourceRegistry.register(devToAdapter);
+sourceRegistry.register(githubAdapter);
+sourceRegistry.register(lobstersAdapter);
+sourceRegistry.register(redditAdapter);
+sourceRegistry.register(productHuntAdapter);
+sourceRegistry.register(followingAdapter);
+
+// Feed URLs can be fetched from their ID alone, e.g. on the server, which
+// doesn't know the feeds each reader added. Any request can name any feed, so
+// the feed client refuses hosts and redirects on private networks.
+sourceRegistry.addResolver(id => {
+  const feed = getRssFeedFromId(id);
+  return feed ? createRssAdapter(feed) : undefined;
+});
+
+// List the reader's feeds as sources, under the names they gave them
+settingsService.subscribe(() => {
+  const feeds = settingsService.get().rssFeeds;
+  feeds.forEach(feed => {
+    if (sourceRegistry.getAll().find(adapter => adapter.id === feed.id)?.name !== feed.name) {
+      sourceRegistry.register(createRssAdapter(feed));
+    }
+  });
+  sourceRegistry.getAll()
+    .filter(adapter => isRssFeedId(adapter.id) && !feeds.some(feed => feed.id === adapter.id))
+    .forEach(adapter => sourceRegistry.unregister(adapter.id));
+});
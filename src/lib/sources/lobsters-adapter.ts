@@ -0,0 +1,66 @@
+import { lobstersClient, LobstersFeedType, NormalizedLobstersStory } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Source adapter for the Lobsters story lists
+ */
+export const lobstersAdapter: SourceAdapter<NormalizedLobstersStory> = {
+  id: 'lobsters',
+  name: 'Lobsters',
+  capabilities: {
+    search: false,
+    tags: true,
+    comments: true,
+    pagination: true,
+  },
+  client: lobstersClient,
+  feedTypes: [
+    { id: 'hottest', name: 'Hottest' },
+    { id: 'newest', name: 'Newest' },
+  ],
+  defaultFeedType: 'hottest',
+
+  async fetch({ limit, feedType = 'hottest', skipCache }) {
+    const { items } = await lobstersClient.getStoriesPage(feedType as LobstersFeedType, limit, 0, { skipCache });
+    return items;
+  },
+
+  // The cursor is an offset into the list
+  async fetchPage({ limit, feedType = 'hottest', cursor, skipCache }) {
+    const { items, nextOffset } = await lobstersClient.getStoriesPage(
+      feedType as LobstersFeedType,
+      limit,
+      Number(cursor ?? 0),
+      { skipCache }
+    );
+    return { items, nextCursor: nextOffset === null ? null : String(nextOffset) };
+  },
+
+  getItem(id) {
+    return lobstersClient.getStory(id);
+  },
+
+  getContent(id) {
+    return lobstersClient.getStoryContent(id);
+  },
+
+  getCommentThread(itemId) {
+    return lobstersClient.getCommentThread(itemId);
+  },
+
+  normalize(story) {
+    return {
+      id: story.id,
+      title: story.title,
+      url: story.url,
+      description: story.description,
+      author: story.author,
+      authorImage: story.authorImage,
+      timestamp: story.timestamp,
+      points: story.points,
+      commentCount: story.commentCount,
+      tags: story.tags,
+      source: story.source,
+    };
+  },
+};
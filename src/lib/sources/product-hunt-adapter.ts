@@ -0,0 +1,65 @@
+import { NormalizedProductHuntPost, productHuntClient, ProductHuntFeedType } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Source adapter for the products launched on Product Hunt today
+ */
+export const productHuntAdapter: SourceAdapter<NormalizedProductHuntPost> = {
+  id: 'producthunt',
+  name: 'Product Hunt',
+  capabilities: {
+    search: false,
+    tags: true,
+    comments: false,
+    pagination: true,
+  },
+  // Off until chosen, since it only works once PRODUCT_HUNT_API_TOKEN is set
+  enabledByDefault: false,
+  client: productHuntClient,
+  feedTypes: [
+    { id: 'ranking', name: 'Top today' },
+    { id: 'newest', name: 'Newest today' },
+  ],
+  defaultFeedType: 'ranking',
+
+  async fetch({ limit, feedType = 'ranking', skipCache }) {
+    const { items } = await productHuntClient.getTodaysPostsPage(feedType as ProductHuntFeedType, limit, undefined, { skipCache });
+    return items;
+  },
+
+  // The cursor is the GraphQL end cursor of the previous page
+  async fetchPage({ limit, feedType = 'ranking', cursor, skipCache }) {
+    const { items, endCursor } = await productHuntClient.getTodaysPostsPage(
+      feedType as ProductHuntFeedType,
+      limit,
+      cursor,
+      { skipCache }
+    );
+    return { items, nextCursor: endCursor };
+  },
+
+  getItem(id) {
+    return productHuntClient.getPost(id);
+  },
+
+  getContent(id) {
+    return productHuntClient.getPostContent(id);
+  },
+
+  normalize(post) {
+    return {
+      id: post.id,
+      title: post.title,
+      url: post.url,
+      description: post.description,
+      author: post.author,
+      authorImage: post.authorImage,
+      timestamp: post.timestamp,
+      points: post.votes,
+      commentCount: post.commentCount,
+      tags: post.topics,
+      coverImage: post.thumbnail,
+      source: post.source,
+    };
+  },
+};
@@ -0,0 +1,83 @@
+import { DEFAULT_SUBREDDITS, NormalizedRedditPost, parseSubreddits, redditClient, RedditFeedType } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Source adapter for posts from a set of subreddits
+ */
+export const redditAdapter: SourceAdapter<NormalizedRedditPost> = {
+  id: 'reddit',
+  name: 'Reddit',
+  capabilities: {
+    search: false,
+    tags: true,
+    comments: true,
+    pagination: true,
+  },
+  // Off until chosen, since the subreddits worth following differ per reader
+  enabledByDefault: false,
+  client: redditClient,
+  feedTypes: [
+    { id: 'hot', name: 'Hot' },
+    { id: 'new', name: 'New' },
+    { id: 'top', name: 'Top today' },
+  ],
+  defaultFeedType: 'hot',
+  options: [
+    {
+      id: 'subreddits',
+      name: 'Subreddits',
+      placeholder: 'programming, rust',
+      defaultValue: DEFAULT_SUBREDDITS.join(', '),
+    },
+  ],
+
+  async fetch({ limit, feedType = 'hot', options, skipCache }) {
+    const { items } = await redditClient.getPostsPage(
+      parseSubreddits(options?.subreddits),
+      feedType as RedditFeedType,
+      limit,
+      undefined,
+      { skipCache }
+    );
+    return items;
+  },
+
+  // The cursor is the fullname of the last post, as Reddit pages by it
+  async fetchPage({ limit, feedType = 'hot', options, cursor, skipCache }) {
+    const { items, after } = await redditClient.getPostsPage(
+      parseSubreddits(options?.subreddits),
+      feedType as RedditFeedType,
+      limit,
+      cursor,
+      { skipCache }
+    );
+    return { items, nextCursor: after };
+  },
+
+  getItem(id) {
+    return redditClient.getPost(id);
+  },
+
+  getContent(id) {
+    return redditClient.getPostContent(id);
+  },
+
+  getCommentThread(itemId) {
+    return redditClient.getCommentThread(itemId);
+  },
+
+  normalize(post) {
+    return {
+      id: post.id,
+      title: post.title,
+      url: post.url,
+      description: post.description,
+      author: post.author,
+      timestamp: post.timestamp,
+      points: post.points,
+      commentCount: post.commentCount,
+      tags: post.tags,
+      source: post.source,
+    };
+  },
+};
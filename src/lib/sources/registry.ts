@@ -0,0 +1,189 @@
+import { BaseApiClient, CommentThread, ItemContent, NewsComment, NewsItem, SourceId } from '../api';
+
+/**
+ * Optional features a source supports
+ */
+export interface SourceCapabilities {
+  search: boolean;
+  tags: boolean;
+  comments: boolean;
+  pagination: boolean;
+}
+
+/**
+ * A selectable list a source can fetch from, e.g. "Best" on Hacker News
+ */
+export interface SourceFeedType {
+  id: string;
+  name: string;
+}
+
+/**
+ * A user-configurable fetch option, e.g. the trending window on GitHub
+ */
+export interface SourceOption {
+  id: string;
+  name: string;
+  // Allowed values; free text when omitted
+  choices?: Array<{ id: string; name: string }>;
+  defaultValue?: string;
+  placeholder?: string;
+}
+
+/**
+ * Options passed to a source adapter when fetching items
+ */
+export interface SourceFetchOptions {
+  limit: number;
+  feedType?: string;
+  // Values of the adapter's declared options, with defaults filled in
+  options?: Record<string, string>;
+  // Opaque cursor returned with the previous page; omitted for the first page
+  cursor?: string;
+  // Fetch from upstream without reading cached responses, e.g. to test a source
+  skipCache?: boolean;
+}
+
+/**
+ * A page of raw items and the cursor of the page after it
+ */
+export interface SourcePage<TRaw = unknown> {
+  items: TRaw[];
+  nextCursor: string | null;
+}
+
+/**
+ * Adapter that plugs a news source into the aggregated feed
+ */
+export interface SourceAdapter<TRaw = unknown> {
+  id: SourceId;
+  name: string;
+  capabilities: SourceCapabilities;
+  enabledByDefault?: boolean;
+  feedTypes?: SourceFeedType[];
+  defaultFeedType?: string;
+  options?: SourceOption[];
+  // Client the adapter fetches through, for rate limit and cache reporting
+  client?: BaseApiClient;
+  fetch(options: SourceFetchOptions): Promise<TRaw[]>;
+  // Only needed for sources with the pagination capability
+  fetchPage?(options: SourceFetchOptions): Promise<SourcePage<TRaw>>;
+  normalize(item: TRaw): NewsItem;
+  getItem?(id: string): Promise<TRaw | null>;
+  getContent?(id: string): Promise<ItemContent | null>;
+  getCommentThread?(itemId: string): Promise<CommentThread>;
+  // Only needed for sources whose threads are loaded lazily by comment ID
+  getComments?(ids: string[]): Promise<NewsComment[]>;
+}
+
+type RegistryListener = () => void;
+
+// Creates an adapter for an ID that describes its own source, or returns undefined
+type SourceResolver = (id: SourceId) => SourceAdapter | undefined;
+
+// Resolved adapters kept at once; the oldest are recreated when needed again
+const MAX_RESOLVED_ADAPTERS = 200;
+
+/**
+ * Registry of all source adapters known to the application
+ */
+export class SourceRegistry {
+  private adapters = new Map<SourceId, SourceAdapter>();
+  private resolvers: SourceResolver[] = [];
+  // Adapters created by resolvers, oldest first
+  private resolved = new Map<SourceId, SourceAdapter>();
+  private listeners = new Set<RegistryListener>();
+
+  /**
+   * Register a source adapter, replacing any adapter with the same ID
+   */
+  register<TRaw>(adapter: SourceAdapter<TRaw>): void {
+    this.adapters.set(adapter.id, adapter as SourceAdapter);
+    this.notify();
+  }
+
+  /**
+   * Remove a source adapter
+   */
+  unregister(id: SourceId): void {
+    if (this.adapters.delete(id)) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Add a resolver for source IDs that describe their own source, such as feed
+   * URLs. Resolved adapters can be looked up but are not listed by getAll.
+   */
+  addResolver(resolver: SourceResolver): void {
+    this.resolvers.push(resolver);
+  }
+
+  /**
+   * Get a source adapter by ID, resolving it if it isn't registered
+   */
+  get(id: SourceId): SourceAdapter | undefined {
+    return this.adapters.get(id) ?? this.resolve(id);
+  }
+
+  /**
+   * Check whether a source adapter is registered or can be resolved
+   */
+  has(id: SourceId): boolean {
+    return !!this.get(id);
+  }
+
+  /**
+   * Get all registered source adapters in registration order
+   */
+  getAll(): SourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Get the display name for a source, falling back to its ID
+   */
+  getName(id: SourceId): string {
+    return this.get(id)?.name ?? id;
+  }
+
+  /**
+   * Subscribe to registry changes, returning an unsubscribe function
+   */
+  subscribe(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private resolve(id: SourceId): SourceAdapter | undefined {
+    const cached = this.resolved.get(id);
+    if (cached) return cached;
+
+    for (const resolver of this.resolvers) {
+      const adapter = resolver(id);
+      if (adapter) {
+        this.resolved.set(id, adapter);
+        if (this.resolved.size > MAX_RESOLVED_ADAPTERS) {
+          this.resolved.delete(this.resolved.keys().next().value as SourceId);
+        }
+        return adapter;
+      }
+    }
+    return undefined;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('SourceRegistry: Listener error:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const sourceRegistry = new SourceRegistry();
@@ -0,0 +1,46 @@
+import { NormalizedFeedItem, RssClient, RssFeed } from '../api';
+import { SourceAdapter } from './registry';
+
+/**
+ * Create a source adapter for an RSS, Atom or JSON Feed URL
+ */
+export function createRssAdapter(feed: RssFeed): SourceAdapter<NormalizedFeedItem> {
+  const client = new RssClient(feed.id, feed.url);
+
+  return {
+    id: feed.id,
+    name: feed.name,
+    capabilities: {
+      search: false,
+      tags: true,
+      comments: false,
+      pagination: false,
+    },
+    client,
+
+    fetch({ limit, skipCache }) {
+      return client.getItems(limit, { skipCache });
+    },
+
+    getItem(id) {
+      return client.getItem(id);
+    },
+
+    getContent(id) {
+      return client.getContent(id);
+    },
+
+    normalize(item) {
+      return {
+        id: item.id,
+        title: item.title,
+        url: item.url,
+        description: item.description,
+        author: item.author,
+        timestamp: item.timestamp,
+        tags: item.tags,
+        source: item.source,
+      };
+    },
+  };
+}
@@ -0,0 +1,5 @@
+// Export all utilities
+export * from './sanitize-html';
+export * from './indexeddb';
+export * from './share-format';
+export * from './xml';
@@ -0,0 +1,97 @@
+// Tags kept in sanitized output; everything else is dropped (its text is kept)
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'li', 'ol', 'p', 'pre', 'strong', 'ul',
+]);
+
+// Tags whose content is removed along with the tag
+const DROPPED_CONTENT = /<(script|style|iframe|object|embed|template)\b[\s\S]*?<\/\1\s*>/gi;
+
+const TAG = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>/gi;
+const HREF = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode HTML character references, e.g. the &#x2F; Hacker News uses in URLs
+ */
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (Number.isNaN(code)) return match;
+      // Like browsers, decode invalid code points to the replacement character
+      const invalid = code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+      return invalid ? '\ufffd' : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function escapeText(value: string): string {
+  return value.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Rebuild an allowed tag without any attributes other than a safe link target
+ */
+function sanitizeTag(closing: string, name: string, attributes: string): string {
+  if (closing) return `</${name}>`;
+  if (name !== 'a') return `<${name}>`;
+
+  const match = attributes.match(HREF);
+  const href = match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '').trim() : '';
+  if (!SAFE_URL.test(href)) return '<a>';
+
+  return `<a href="${escapeAttribute(href)}" target="_blank" rel="nofollow noopener noreferrer">`;
+}
+
+/**
+ * Sanitize user-generated HTML (comments, article bodies) with a tag allowlist.
+ * Works without a DOM so it can run on the server.
+ */
+export function sanitizeHtml(html: string): string {
+  const input = html.replace(DROPPED_CONTENT, '');
+  let output = '';
+  let lastIndex = 0;
+
+  for (const match of input.matchAll(TAG)) {
+    const [tag, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+
+    output += escapeText(input.slice(lastIndex, match.index));
+    if (ALLOWED_TAGS.has(name)) {
+      output += sanitizeTag(closing, name, attributes);
+    }
+    lastIndex = (match.index ?? 0) + tag.length;
+  }
+
+  return output + escapeText(input.slice(lastIndex));
+}
+
+/**
+ * Reduce HTML to its plain text, e.g. for a one-line summary
+ */
+export function stripHtml(html: string): string {
+  return decodeEntities(html.replace(DROPPED_CONTENT, '').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
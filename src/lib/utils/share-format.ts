@@ -0,0 +1,81 @@
+import { formatRelativeTime, NewsItem } from '../api';
+
+/**
+ * Link to share for an item: the upstream URL, or the item page for text posts
+ */
+export function getShareUrl(item: NewsItem, origin: string): string {
+  return item.url || `${origin}/item/${item.source}/${item.id}`;
+}
+
+/**
+ * Short engagement summary, e.g. "412 points, 96 comments"
+ */
+function formatEngagement(item: NewsItem): string {
+  const parts: string[] = [];
+  if (item.points !== undefined) parts.push(`${item.points} points`);
+  if (item.reactions !== undefined) parts.push(`${item.reactions} reactions`);
+  if (item.stars !== undefined) parts.push(`${item.stars} stars`);
+  if (item.commentCount !== undefined) parts.push(`${item.commentCount} comments`);
+  return parts.join(', ');
+}
+
+/**
+ * Format an item as a Markdown link
+ */
+export function formatMarkdownLink(item: NewsItem, url: string): string {
+  const title = item.title.replace(/([[\]\\])/g, '\\$1');
+  return `[${title}](${url.replace(/\)/g, '%29')})`;
+}
+
+/**
+ * Format an item for pasting into Slack, using its link and emphasis syntax
+ */
+export function formatSlackText(item: NewsItem, url: string, sourceName: string): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const details = [
+    sourceName,
+    `by ${item.author}`,
+    formatRelativeTime(item.timestamp),
+    formatEngagement(item),
+  ].filter(Boolean).join(' • ');
+
+  return `*<${url}|${escape(item.title)}>*\n_${escape(details)}_`;
+}
+
+/**
+ * Format an item as a plain-text citation
+ */
+export function formatCitation(item: NewsItem, url: string, sourceName: string): string {
+  return `${item.author}. "${item.title}". ${sourceName}, ${formatRelativeTime(item.timestamp)}. ${url}`;
+}
+
+/**
+ * Copy text to the clipboard, falling back to a hidden textarea where the
+ * async Clipboard API is unavailable (e.g. non-secure origins)
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.clipboard?.writeText) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return;
+    } catch (error) {
+      console.warn('Clipboard API failed, using fallback:', error);
+    }
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  try {
+    if (!document.execCommand('copy')) {
+      throw new Error('Copy command was rejected');
+    }
+  } finally {
+    document.body.removeChild(textarea);
+  }
+}
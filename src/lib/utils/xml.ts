@@ -0,0 +1,126 @@
+import { decodeEntities } from './sanitize-html';
+
+/**
+ * An element of a parsed XML document; text and CDATA are kept as strings
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+const ATTRIBUTE = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Find where a start tag ends, skipping '>' inside quoted attribute values
+ */
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse an XML document into a tree. Lenient rather than validating, since
+ * feeds in the wild are often slightly malformed: unclosed elements are closed
+ * by their parent, and stray closing tags are ignored. Works without a DOM so
+ * it can run on the server.
+ */
+export function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const current = () => stack[stack.length - 1];
+  let i = 0;
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    if (lt === -1) {
+      current().children.push(decodeEntities(source.slice(i)));
+      break;
+    }
+    if (lt > i) {
+      current().children.push(decodeEntities(source.slice(i, lt)));
+    }
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      i = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      current().children.push(source.slice(lt + 9, end === -1 ? source.length : end));
+      i = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<?', lt)) {
+      const end = source.indexOf('?>', lt + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else if (source.startsWith('<!', lt)) {
+      // Doctype, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', lt);
+      const close = source.indexOf('>', lt);
+      const end = bracket !== -1 && bracket < close ? source.indexOf(']>', bracket) + 1 : close;
+      i = end <= 0 ? source.length : end + 1;
+    } else if (source.startsWith('</', lt)) {
+      const end = source.indexOf('>', lt);
+      const name = source.slice(lt + 2, end === -1 ? source.length : end).trim();
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      i = end === -1 ? source.length : end + 1;
+    } else {
+      const end = findTagEnd(source, lt + 1);
+      if (end === -1) break;
+      const raw = source.slice(lt + 1, end);
+      const selfClosing = raw.endsWith('/');
+      const name = raw.match(/^[^\s/>]+/)?.[0];
+      if (name) {
+        const attributes: Record<string, string> = {};
+        for (const match of raw.slice(name.length).matchAll(ATTRIBUTE)) {
+          attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+        }
+        const element: XmlElement = { name, attributes, children: [] };
+        current().children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+      i = end + 1;
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Get the child elements of an element, optionally only those with a given name
+ */
+export function getChildren(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * Get the first child element with one of the given names, in order of preference
+ */
+export function getChild(element: XmlElement, ...names: string[]): XmlElement | undefined {
+  for (const name of names) {
+    const child = getChildren(element, name)[0];
+    if (child) return child;
+  }
+  return undefined;
+}
+
+/**
+ * Get the text content of an element and its descendants
+ */
+export function getText(element: XmlElement | undefined): string {
+  if (!element) return '';
+  return element.children
+    .map(child => (typeof child === 'string' ? child : getText(child)))
+    .join('');
+}